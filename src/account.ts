@@ -2,203 +2,90 @@
  * Account selection and management
  */
 
-import { spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
 import * as readline from "node:readline/promises";
-import { stdin as input, stdout as output } from "node:process";
+import { stdin as input } from "node:process";
+import { runWhoami } from "./whoami";
+import { spawnWrangler } from "./wrangler-runner";
 
 export interface Account {
 	name: string;
 	id: string;
 }
 
+export interface PromptOptions {
+	/** Where messages and prompts go (default: stdout). Use stderr when stdout carries JSON. */
+	output?: NodeJS.WriteStream;
+}
+
 /**
- * Parses wrangler whoami output to extract accounts
+ * What to do instead of logging in when there is no terminal to do it from
  */
-function parseWhoamiOutput(output: string): Account[] {
-	const accounts: Account[] = [];
-	const lines = output.split("\n");
-
-	for (const line of lines) {
-		// Parse table format: │ Account Name │ Account ID │
-		// Skip header, separator, and border lines
-		if (line.includes("│") && !line.includes("Account Name") && !line.includes("─")) {
-			// Extract content between │ separators
-			const parts = line.split("│").map(part => part.trim()).filter(part => part);
-
-			// Should have exactly 2 parts: name and id
-			if (parts.length === 2) {
-				const name = parts[0];
-				const id = parts[1];
-
-				// Validate ID format (should be 32 hex characters)
-				if (/^[0-9a-f]{32}$/i.test(id)) {
-					accounts.push({ name, id });
-				}
-			}
-		}
+const NON_INTERACTIVE_HELP = [
+	"Set CLOUDFLARE_API_TOKEN (and CLOUDFLARE_ACCOUNT_ID), or store a token with `wrongler profile add <name>`",
+	"and select it with --profile <name> or WRONGLER_PROFILE.",
+].join(" ");
 
-		// Also support old format: `name`: `id` (for backwards compatibility)
-		if (line.includes("`")) {
-			const match = line.match(/`([^`]+)`:\s*`([^`]+)`/);
-			if (match) {
-				accounts.push({
-					name: match[1],
-					id: match[2],
-				});
-			}
-		}
-	}
+/**
+ * Prints a message for the user
+ */
+function say(options: PromptOptions, message: string): void {
+	(options.output ?? process.stdout).write(`${message}\n`);
+}
 
-	return accounts;
+/**
+ * Whether the user can answer prompts. Without a terminal (CI, piped input)
+ * readline would wait forever.
+ */
+export function isInteractive(): boolean {
+	return Boolean(process.stdin.isTTY);
 }
 
 /**
  * Checks if the user is logged in to Cloudflare
  */
 export async function isLoggedIn(): Promise<boolean> {
-	return new Promise((resolve) => {
-		let wranglerPath: string;
-		try {
-			wranglerPath = require.resolve("wrangler/bin/wrangler.js");
-		} catch {
-			resolve(false);
-			return;
-		}
-
-		// Run wrangler whoami to check login status
-		const wrangler = spawn("node", [wranglerPath, "whoami"], {
-			stdio: "pipe",
-			shell: false,
-		});
-
-		let stdout = "";
-		let stderr = "";
-
-		if (wrangler.stdout && wrangler.stderr) {
-			wrangler.stdout.on("data", (data) => {
-				stdout += data.toString();
-			});
-
-			wrangler.stderr.on("data", (data) => {
-				stderr += data.toString();
-			});
-		}
-
-		wrangler.on("error", () => {
-			resolve(false);
-		});
-
-		wrangler.on("exit", (code) => {
-			const combinedOutput = stdout + stderr;
-
-			// Check if output indicates user is not logged in
-			const notLoggedIn = combinedOutput.includes("Not logged in") ||
-								combinedOutput.includes("not logged in") ||
-								combinedOutput.includes("login required");
-
-			// User is logged in if command succeeded and doesn't say "not logged in"
-			resolve(code === 0 && !notLoggedIn);
-		});
-	});
+	try {
+		return (await runWhoami()).loggedIn;
+	} catch {
+		return false;
+	}
 }
 
 /**
  * Lists available Cloudflare accounts
  */
 export async function listAccounts(): Promise<Account[]> {
-	return new Promise((resolve, reject) => {
-		let wranglerPath: string;
-		try {
-			wranglerPath = require.resolve("wrangler/bin/wrangler.js");
-		} catch {
-			reject(new Error("wrangler is not installed"));
-			return;
-		}
-
-		// Run wrangler whoami to get account list
-		const wrangler = spawn("node", [wranglerPath, "whoami"], {
-			stdio: "pipe",
-			shell: false,
-		});
-
-		let stdout = "";
-		let stderr = "";
-
-		if (wrangler.stdout && wrangler.stderr) {
-			wrangler.stdout.on("data", (data) => {
-				stdout += data.toString();
-			});
-
-			wrangler.stderr.on("data", (data) => {
-				stderr += data.toString();
-			});
-		}
-
-		wrangler.on("error", (error) => {
-			reject(error);
-		});
-
-		wrangler.on("exit", (code) => {
-			const combinedOutput = stdout + stderr;
-
-			// Parse accounts from output (works regardless of exit code)
-			const accounts = parseWhoamiOutput(combinedOutput);
-
-			if (accounts.length > 0) {
-				resolve(accounts);
-				return;
-			}
-
-			// If no accounts found and command failed, check if it's a login issue
-			if (code !== 0) {
-				const notLoggedIn = combinedOutput.includes("Not logged in") ||
-									combinedOutput.includes("not logged in") ||
-									combinedOutput.includes("login required");
-
-				if (notLoggedIn) {
-					// Return a specific error for not being logged in
-					reject(new Error("NOT_LOGGED_IN"));
-				} else {
-					// Other error
-					reject(new Error("Failed to list accounts. Please check your Cloudflare credentials."));
-				}
-				return;
-			}
-
-			// Command succeeded but no accounts found
-			resolve([]);
-		});
-	});
+	const whoami = await runWhoami();
+	if (!whoami.loggedIn) {
+		throw new Error("NOT_LOGGED_IN");
+	}
+	return whoami.accounts;
 }
 
 /**
  * Runs wrangler login to authenticate the user
  */
-export async function runLogin(): Promise<boolean> {
+export async function runLogin(options: PromptOptions = {}): Promise<boolean> {
 	return new Promise((resolve, reject) => {
-		let wranglerPath: string;
+		say(options, "\n🔑 Opening browser for Cloudflare authentication...\n");
+
+		// Run wrangler login with inherited stdio so user can interact
+		let wrangler: ChildProcess;
 		try {
-			wranglerPath = require.resolve("wrangler/bin/wrangler.js");
-		} catch {
-			reject(new Error("wrangler is not installed"));
+			wrangler = spawnWrangler(["login"], { stdio: ["inherit", options.output ?? "inherit", "inherit"] });
+		} catch (error) {
+			reject(error);
 			return;
 		}
 
-		console.log("\n🔑 Opening browser for Cloudflare authentication...\n");
-
-		// Run wrangler login with inherited stdio so user can interact
-		const wrangler = spawn("node", [wranglerPath, "login"], {
-			stdio: "inherit",
-			shell: false,
-		});
-
 		wrangler.on("error", (error) => {
 			reject(error);
 		});
 
 		wrangler.on("exit", (code) => {
 			if (code === 0) {
-				console.log("\n✓ Login successful!\n");
+				say(options, "\n✓ Login successful!\n");
 				resolve(true);
 			} else {
 				resolve(false);
@@ -210,32 +97,42 @@ export async function runLogin(): Promise<boolean> {
 /**
  * Ensures user is logged in, prompting for login if necessary
  */
-export async function ensureLoggedIn(): Promise<boolean> {
+export async function ensureLoggedIn(options: PromptOptions = {}): Promise<boolean> {
 	const loggedIn = await isLoggedIn();
 
 	if (loggedIn) {
 		return true;
 	}
 
+	// Logging in again won't fix a bad token, and there may be no one to ask
+	if (process.env.CLOUDFLARE_API_TOKEN) {
+		throw new Error(
+			"Cloudflare rejected CLOUDFLARE_API_TOKEN. Check that the token is valid and has the Account Settings: Read permission."
+		);
+	}
+	if (!isInteractive()) {
+		throw new Error(`Not logged in to Cloudflare, and there is no terminal to log in from. ${NON_INTERACTIVE_HELP}`);
+	}
+
 	// User is not logged in - prompt them
-	console.log("\n⚠️  You are not logged in to Cloudflare.\n");
+	say(options, "\n⚠️  You are not logged in to Cloudflare.\n");
 
-	const rl = readline.createInterface({ input, output });
+	const rl = readline.createInterface({ input, output: options.output ?? process.stdout });
 	const answer = await rl.question("Would you like to login now? (y/n): ");
 	rl.close();
 
 	const shouldLogin = answer.trim().toLowerCase() === "y" || answer.trim().toLowerCase() === "yes";
 
 	if (!shouldLogin) {
-		console.log("\nLogin cancelled. Please login with: wrangler login\n");
+		say(options, "\nLogin cancelled. Please login with: wrangler login\n");
 		return false;
 	}
 
 	// Run login
-	const loginSuccess = await runLogin();
+	const loginSuccess = await runLogin(options);
 
 	if (!loginSuccess) {
-		console.log("\n❌ Login failed. Please try again with: wrangler login\n");
+		say(options, "\n❌ Login failed. Please try again with: wrangler login\n");
 		return false;
 	}
 
@@ -247,7 +144,7 @@ export async function ensureLoggedIn(): Promise<boolean> {
 /**
  * Fetches accounts and handles login if necessary
  */
-export async function getAccountsWithLogin(): Promise<Account[]> {
+export async function getAccountsWithLogin(options: PromptOptions = {}): Promise<Account[]> {
 	try {
 		// Try to fetch accounts
 		return await listAccounts();
@@ -255,7 +152,7 @@ export async function getAccountsWithLogin(): Promise<Account[]> {
 		// Check if it's a login error
 		if (error instanceof Error && error.message === "NOT_LOGGED_IN") {
 			// Prompt user to login
-			const loginSuccess = await ensureLoggedIn();
+			const loginSuccess = await ensureLoggedIn(options);
 
 			if (!loginSuccess) {
 				throw new Error("Login required. Please run: wrangler login");
@@ -270,27 +167,64 @@ export async function getAccountsWithLogin(): Promise<Account[]> {
 	}
 }
 
+/**
+ * Finds an account by ID or by name (case-insensitive). Throws if nothing
+ * matches or the name is ambiguous.
+ */
+export function findAccount(accounts: Account[], nameOrId: string): Account {
+	const byId = accounts.find((account) => account.id === nameOrId);
+	if (byId) {
+		return byId;
+	}
+
+	const byName = accounts.filter((account) => account.name.toLowerCase() === nameOrId.toLowerCase());
+	if (byName.length === 1) {
+		return byName[0];
+	}
+	if (byName.length > 1) {
+		throw new Error(`Several accounts are named "${nameOrId}" - use the account ID instead`);
+	}
+
+	throw new Error(`No account named "${nameOrId}" - run \`wrongler account list\` to see your accounts`);
+}
+
+/**
+ * Whether a value looks like an account ID rather than a name
+ */
+export function isAccountId(value: string): boolean {
+	return /^[0-9a-f]{32}$/i.test(value);
+}
+
 /**
  * Prompts user to select an account from a list
  */
-export async function selectAccount(accounts: Account[]): Promise<string> {
+export async function selectAccount(accounts: Account[], options: PromptOptions = {}): Promise<string> {
 	if (accounts.length === 0) {
 		throw new Error("No accounts available");
 	}
 
 	if (accounts.length === 1) {
 		// Only one account, use it automatically
-		console.log(`\n✓ Using account: ${accounts[0].name} (${accounts[0].id})\n`);
+		say(options, `\n✓ Using account: ${accounts[0].name} (${accounts[0].id})\n`);
 		return accounts[0].id;
 	}
 
+	if (!isInteractive()) {
+		const available = accounts.map((account) => `  ${account.name} (${account.id})`).join("\n");
+		throw new Error(
+			"Multiple Cloudflare accounts are available and there is no terminal to choose from.\n" +
+			`${available}\n` +
+			"Pick one with --account <name-or-id>, CLOUDFLARE_ACCOUNT_ID or account_id in the wrangler config."
+		);
+	}
+
 	// Multiple accounts - prompt user to select
-	console.log("\n📋 Multiple Cloudflare accounts available:");
+	say(options, "\n📋 Multiple Cloudflare accounts available:");
 	accounts.forEach((account, index) => {
-		console.log(`  ${index + 1}. ${account.name} (${account.id})`);
+		say(options, `  ${index + 1}. ${account.name} (${account.id})`);
 	});
 
-	const rl = readline.createInterface({ input, output });
+	const rl = readline.createInterface({ input, output: options.output ?? process.stdout });
 
 	while (true) {
 		const answer = await rl.question("\nSelect an account (enter number): ");
@@ -299,10 +233,10 @@ export async function selectAccount(accounts: Account[]): Promise<string> {
 		if (selection >= 1 && selection <= accounts.length) {
 			const selectedAccount = accounts[selection - 1];
 			rl.close();
-			console.log(`\n✓ Selected: ${selectedAccount.name}\n`);
+			say(options, `\n✓ Selected: ${selectedAccount.name}\n`);
 			return selectedAccount.id;
 		}
 
-		console.log(`Invalid selection. Please enter a number between 1 and ${accounts.length}.`);
+		say(options, `Invalid selection. Please enter a number between 1 and ${accounts.length}.`);
 	}
 }
@@ -1,5 +1,8 @@
 /**
  * Command line argument parser
+ *
+ * Flags are declared in FLAG_SPECS; the parser, validation and the
+ * `wrongler deploy --yolo --help` text are all generated from that list.
  */
 
 export interface ParsedArgs {
@@ -7,15 +10,355 @@ export interface ParsedArgs {
 	entryPoint?: string;
 	name?: string;
 	env?: string;
+	account?: string;
+	profile?: string;
+	wranglerPath?: string;
 	compatibilityDate?: string;
 	compatibilityFlags?: string[];
 	minify?: boolean;
 	noBundle?: boolean;
 	dryRun?: boolean;
 	verbose?: boolean;
-	yolo?: boolean;
+	yolo?: boolean | "deploy" | "preview" | "gradual";
+	rolloutSteps?: string;
+	output?: "text" | "json";
+	controlPort?: number | boolean;
+	rolloutInterval?: number;
+	latestWins?: boolean;
+	checks?: string[];
+	smoke?: string[];
+	smokeBaseUrl?: string;
+	help?: boolean;
 	config?: string;
+	assets?: string;
+	site?: string;
+	siteInclude?: string[];
+	siteExclude?: string[];
+	routes?: string[];
+	domains?: string[];
+	triggers?: string[];
+	vars?: Record<string, string>;
+	defines?: Record<string, string>;
+	alias?: Record<string, string>;
+	jsxFactory?: string;
+	jsxFragment?: string;
+	tsconfig?: string;
+	keepVars?: boolean;
+	logpush?: boolean;
+	uploadSourceMaps?: boolean;
+	oldAssetTtl?: number;
+	outDir?: string;
+	outFile?: string;
+	dispatchNamespace?: string;
+	metafile?: string | boolean;
+	containersRollout?: "immediate" | "gradual";
+	strict?: boolean;
+	experimentalAutoCreate?: boolean;
 	remainingArgs: string[];
+	/** Problems found while parsing, e.g. a flag missing its value */
+	errors: string[];
+}
+
+type FlagKey = Exclude<keyof ParsedArgs, "command" | "entryPoint" | "remainingArgs" | "errors">;
+
+export interface FlagSpec {
+	/** Long flag name without leading dashes */
+	name: string;
+	key: FlagKey;
+	/** Alternative names; single letters are short flags (`-e`) */
+	aliases?: string[];
+	/**
+	 * - boolean: `--flag`, `--flag=false`, `--no-flag`
+	 * - string / number: `--flag value` or `--flag=value`
+	 * - key-value: `--flag key:value`, collected into a record
+	 */
+	type: "boolean" | "string" | "number" | "key-value";
+	/** The value may be omitted, in which case the flag is `true` */
+	optionalValue?: boolean;
+	repeatable?: boolean;
+	choices?: string[];
+	/** Placeholder shown in help output */
+	valueName?: string;
+	description: string;
+}
+
+export const FLAG_SPECS: FlagSpec[] = [
+	{
+		name: "yolo",
+		key: "yolo",
+		type: "string",
+		optionalValue: true,
+		choices: ["deploy", "preview", "gradual"],
+		valueName: "mode",
+		description: "Watch for changes and redeploy on every save; `preview` only uploads versions, `gradual` rolls them out in steps",
+	},
+	{
+		name: "rollout-steps",
+		key: "rolloutSteps",
+		type: "string",
+		valueName: "percentages",
+		description: "Traffic steps for --yolo=gradual, e.g. 10,50,100",
+	},
+	{
+		name: "rollout-interval",
+		key: "rolloutInterval",
+		type: "number",
+		valueName: "seconds",
+		description: "Seconds between rollout steps for --yolo=gradual",
+	},
+	{
+		name: "latest-wins",
+		key: "latestWins",
+		type: "boolean",
+		description: "Abort a deploy that is still building when a newer change arrives",
+	},
+	{
+		name: "check",
+		key: "checks",
+		type: "string",
+		repeatable: true,
+		valueName: "command",
+		description: "Command that must pass before each deploy (adds to .wronglerrc.json checks)",
+	},
+	{
+		name: "smoke",
+		key: "smoke",
+		type: "string",
+		repeatable: true,
+		valueName: "path",
+		description: "Path that must return 200 after each deploy, or the deploy is rolled back",
+	},
+	{
+		name: "smoke-base-url",
+		key: "smokeBaseUrl",
+		type: "string",
+		valueName: "url",
+		description: "Base URL for smoke tests instead of the deployed worker URL",
+	},
+	{
+		name: "output",
+		key: "output",
+		type: "string",
+		choices: ["text", "json"],
+		valueName: "format",
+		description: "Print human-readable text or one JSON event per line",
+	},
+	{
+		name: "control-port",
+		key: "controlPort",
+		type: "number",
+		optionalValue: true,
+		valueName: "port",
+		description: "Serve a local HTTP API to follow and control the session (default port 8790)",
+	},
+	{ name: "verbose", key: "verbose", aliases: ["v"], type: "boolean", description: "Show full wrangler output" },
+	{ name: "help", key: "help", aliases: ["h"], type: "boolean", description: "Show this help" },
+	{ name: "name", key: "name", type: "string", valueName: "name", description: "Name of the worker" },
+	{ name: "env", key: "env", aliases: ["e"], type: "string", valueName: "name", description: "Environment to deploy to" },
+	{ name: "config", key: "config", aliases: ["c"], type: "string", valueName: "path", description: "Path to the wrangler config file" },
+	{
+		name: "account",
+		key: "account",
+		type: "string",
+		valueName: "name-or-id",
+		description: "Cloudflare account to deploy to, instead of the config or the remembered choice",
+	},
+	{
+		name: "profile",
+		key: "profile",
+		type: "string",
+		valueName: "name",
+		description: "Credential profile (API token) to deploy with, see `wrongler profile`",
+	},
+	{
+		name: "wrangler-path",
+		key: "wranglerPath",
+		type: "string",
+		valueName: "path",
+		description: "wrangler to run instead of the project's own, e.g. a test double [env: WRONGLER_WRANGLER_PATH]",
+	},
+	{
+		name: "compatibility-date",
+		key: "compatibilityDate",
+		type: "string",
+		valueName: "date",
+		description: "Date to use for compatibility checks",
+	},
+	{
+		name: "compatibility-flags",
+		key: "compatibilityFlags",
+		aliases: ["compatibility-flag"],
+		type: "string",
+		repeatable: true,
+		valueName: "flag",
+		description: "Flags to use for compatibility checks",
+	},
+	{ name: "minify", key: "minify", type: "boolean", description: "Minify the worker" },
+	{ name: "no-bundle", key: "noBundle", type: "boolean", description: "Skip internal build steps and directly deploy the worker" },
+	{ name: "dry-run", key: "dryRun", type: "boolean", description: "Compile a project without actually deploying" },
+	{ name: "assets", key: "assets", type: "string", valueName: "dir", description: "Static assets directory to upload" },
+	{ name: "site", key: "site", type: "string", valueName: "dir", description: "Root folder of static assets for Workers Sites" },
+	{
+		name: "site-include",
+		key: "siteInclude",
+		type: "string",
+		repeatable: true,
+		valueName: "glob",
+		description: "Only include matching files in the Workers Site",
+	},
+	{
+		name: "site-exclude",
+		key: "siteExclude",
+		type: "string",
+		repeatable: true,
+		valueName: "glob",
+		description: "Exclude matching files from the Workers Site",
+	},
+	{
+		name: "routes",
+		key: "routes",
+		aliases: ["route"],
+		type: "string",
+		repeatable: true,
+		valueName: "pattern",
+		description: "Routes to upload",
+	},
+	{
+		name: "domains",
+		key: "domains",
+		aliases: ["domain"],
+		type: "string",
+		repeatable: true,
+		valueName: "domain",
+		description: "Custom domains to deploy to",
+	},
+	{
+		name: "triggers",
+		key: "triggers",
+		aliases: ["schedule", "schedules"],
+		type: "string",
+		repeatable: true,
+		valueName: "cron",
+		description: "Cron schedules to attach",
+	},
+	{ name: "var", key: "vars", type: "key-value", repeatable: true, valueName: "key:value", description: "Variable to inject" },
+	{
+		name: "define",
+		key: "defines",
+		type: "key-value",
+		repeatable: true,
+		valueName: "key:value",
+		description: "Global constant to replace when bundling",
+	},
+	{
+		name: "alias",
+		key: "alias",
+		type: "key-value",
+		repeatable: true,
+		valueName: "module:path",
+		description: "Module alias to apply when bundling",
+	},
+	{ name: "jsx-factory", key: "jsxFactory", type: "string", valueName: "name", description: "The function called for each JSX element" },
+	{
+		name: "jsx-fragment",
+		key: "jsxFragment",
+		type: "string",
+		valueName: "name",
+		description: "The function called for each JSX fragment",
+	},
+	{ name: "tsconfig", key: "tsconfig", type: "string", valueName: "path", description: "Path to a custom tsconfig.json" },
+	{ name: "keep-vars", key: "keepVars", type: "boolean", description: "Keep variables set in the dashboard" },
+	{ name: "logpush", key: "logpush", type: "boolean", description: "Send trace events to Logpush" },
+	{ name: "upload-source-maps", key: "uploadSourceMaps", type: "boolean", description: "Upload source maps" },
+	{
+		name: "old-asset-ttl",
+		key: "oldAssetTtl",
+		type: "number",
+		valueName: "seconds",
+		description: "Expire old Workers Sites assets after this many seconds",
+	},
+	{ name: "outdir", key: "outDir", type: "string", valueName: "dir", description: "Output directory for the bundled worker" },
+	{ name: "outfile", key: "outFile", type: "string", valueName: "path", description: "Output file for the bundled worker" },
+	{
+		name: "dispatch-namespace",
+		key: "dispatchNamespace",
+		type: "string",
+		valueName: "name",
+		description: "Workers for Platforms dispatch namespace to deploy into",
+	},
+	{
+		name: "metafile",
+		key: "metafile",
+		type: "string",
+		optionalValue: true,
+		valueName: "path",
+		description: "Write esbuild metadata (default: bundle-meta.json)",
+	},
+	{
+		name: "containers-rollout",
+		key: "containersRollout",
+		type: "string",
+		choices: ["immediate", "gradual"],
+		valueName: "mode",
+		description: "Rollout strategy for containers changes",
+	},
+	{ name: "strict", key: "strict", type: "boolean", description: "Abort deploys on potential risks" },
+	{
+		name: "experimental-auto-create",
+		key: "experimentalAutoCreate",
+		aliases: ["x-auto-create"],
+		type: "boolean",
+		description: "Automatically provision draft bindings",
+	},
+];
+
+/**
+ * Flags of `wrangler deploy` and `wrangler versions upload` that wrongler
+ * doesn't handle itself but which take a value, as of wrangler 4.86.0. Their
+ * value is kept with them in `remainingArgs` instead of being mistaken for the
+ * entry point.
+ */
+const PASSTHROUGH_VALUE_FLAGS = ["--cwd", "--env-file", "--tag", "--message", "--secrets-file", "--preview-alias"];
+
+/**
+ * Boolean flags of `wrangler deploy` and `wrangler versions upload` that
+ * wrongler doesn't handle itself. Like any boolean flag, they take `true` or
+ * `false` as a separate value.
+ */
+const PASSTHROUGH_BOOLEAN_FLAGS = [
+	"--bundle",
+	"--latest",
+	"--legacy-env",
+	"--node-compat",
+	"--experimental-autoconfig",
+	"--x-autoconfig",
+	"--experimental-provision",
+	"--x-provision",
+];
+
+/**
+ * Whether a token is the separate value of a boolean flag
+ */
+function isBooleanValue(arg: string | undefined): boolean {
+	return arg === "true" || arg === "false";
+}
+
+/**
+ * Looks up a flag spec by long name, alias or short flag
+ */
+function findSpec(name: string): FlagSpec | undefined {
+	return FLAG_SPECS.find((spec) => spec.name === name || spec.aliases?.includes(name));
+}
+
+/**
+ * Splits a `key:value` flag argument (as used by --var, --define and --alias)
+ */
+function parseKeyValue(arg: string): [string, string] | null {
+	const separator = arg.indexOf(":");
+	if (separator <= 0) {
+		return null;
+	}
+	return [arg.slice(0, separator), arg.slice(separator + 1)];
 }
 
 /**
@@ -24,13 +367,108 @@ export interface ParsedArgs {
 export function parseArgs(args: string[]): ParsedArgs {
 	const parsed: ParsedArgs = {
 		remainingArgs: [],
+		errors: [],
+	};
+	const values = parsed as unknown as Record<string, unknown>;
+
+	/**
+	 * Stores a flag value according to its spec. `value` is undefined when the
+	 * flag was given without one.
+	 */
+	const apply = (spec: FlagSpec, flag: string, value: string | undefined) => {
+		if (spec.type === "boolean") {
+			if (value === undefined || value === "true") {
+				values[spec.key] = true;
+			} else if (value === "false") {
+				values[spec.key] = false;
+			} else {
+				parsed.errors.push(`${flag} does not take a value (got "${value}")`);
+			}
+			return;
+		}
+
+		if (value === undefined) {
+			if (spec.optionalValue) {
+				values[spec.key] = true;
+			} else {
+				parsed.errors.push(`${flag} requires a value${spec.valueName ? ` <${spec.valueName}>` : ""}`);
+			}
+			return;
+		}
+
+		if (spec.choices && !spec.choices.includes(value)) {
+			parsed.errors.push(`${flag} must be one of: ${spec.choices.join(", ")} (got "${value}")`);
+			return;
+		}
+
+		if (spec.type === "number") {
+			const number = Number(value);
+			if (value.trim() === "" || Number.isNaN(number)) {
+				parsed.errors.push(`${flag} expects a number (got "${value}")`);
+				return;
+			}
+			values[spec.key] = number;
+			return;
+		}
+
+		if (spec.type === "key-value") {
+			const entry = parseKeyValue(value);
+			if (!entry) {
+				parsed.errors.push(`${flag} expects <${spec.valueName ?? "key:value"}> (got "${value}")`);
+				return;
+			}
+			values[spec.key] = { ...(values[spec.key] as Record<string, string> | undefined), [entry[0]]: entry[1] };
+			return;
+		}
+
+		if (spec.repeatable) {
+			values[spec.key] = [...((values[spec.key] as string[] | undefined) ?? []), value];
+		} else {
+			values[spec.key] = value;
+		}
 	};
 
 	let i = 0;
+
+	/**
+	 * Takes the next token as a flag value, unless it looks like another flag
+	 */
+	const takeValue = (spec: FlagSpec): string | undefined => {
+		const next = args[i + 1];
+		if (spec.type === "boolean") {
+			// `--minify false`, as wrangler reads it
+			if (!isBooleanValue(next)) {
+				return undefined;
+			}
+			i++;
+			return next;
+		}
+		if (next === undefined || (next.startsWith("-") && !/^-\d/.test(next))) {
+			return undefined;
+		}
+		// `--yolo src/index.ts`: an optional value must be one of the choices
+		// (or a number, for number flags), otherwise the token is left for
+		// whatever comes next
+		if (spec.optionalValue && spec.choices && !spec.choices.includes(next)) {
+			return undefined;
+		}
+		if (spec.optionalValue && spec.type === "number" && !/^\d+$/.test(next)) {
+			return undefined;
+		}
+		i++;
+		return next;
+	};
+
 	while (i < args.length) {
 		const arg = args[i];
 
-		if (!arg.startsWith("-")) {
+		if (arg === "--") {
+			// Everything after `--` goes to wrangler untouched
+			parsed.remainingArgs.push(...args.slice(i + 1));
+			break;
+		}
+
+		if (!arg.startsWith("-") || arg === "-") {
 			// First non-flag argument is the command
 			if (!parsed.command) {
 				parsed.command = arg;
@@ -44,76 +482,106 @@ export function parseArgs(args: string[]): ParsedArgs {
 			continue;
 		}
 
-		switch (arg) {
-			case "--yolo":
-				parsed.yolo = true;
-				break;
-
-			case "--verbose":
-			case "-v":
-				parsed.verbose = true;
-				break;
-
-			case "--name":
-				i++;
-				if (i < args.length) {
-					parsed.name = args[i];
-				}
-				break;
-
-			case "--env":
-			case "-e":
-				i++;
-				if (i < args.length) {
-					parsed.env = args[i];
-				}
-				break;
+		if (arg.startsWith("--")) {
+			const equals = arg.indexOf("=");
+			const name = equals === -1 ? arg.slice(2) : arg.slice(2, equals);
+			const inlineValue = equals === -1 ? undefined : arg.slice(equals + 1);
 
-			case "--compatibility-date":
-				i++;
-				if (i < args.length) {
-					parsed.compatibilityDate = args[i];
+			const spec = findSpec(name);
+			const negated = name.startsWith("no-") ? findSpec(name.slice(3)) : undefined;
+			if (spec) {
+				apply(spec, `--${name}`, inlineValue ?? takeValue(spec));
+			} else if (negated?.type === "boolean") {
+				// --no-<flag> negates a boolean flag
+				if (inlineValue === undefined) {
+					apply(negated, `--${name}`, "false");
+				} else {
+					parsed.errors.push(`--${name} does not take a value (got "${inlineValue}")`);
 				}
-				break;
-
-			case "--compatibility-flags":
-				i++;
-				if (i < args.length) {
-					if (!parsed.compatibilityFlags) {
-						parsed.compatibilityFlags = [];
-					}
-					parsed.compatibilityFlags.push(args[i]);
+			} else {
+				// Unknown flag - add to remaining args, with its value if it takes one
+				parsed.remainingArgs.push(arg);
+				const next = args[i + 1];
+				const boolean = PASSTHROUGH_BOOLEAN_FLAGS.includes(arg.replace(/^--no-/, "--"));
+				const separateValue = inlineValue === undefined && next !== undefined && !next.startsWith("-");
+				if (separateValue && (PASSTHROUGH_VALUE_FLAGS.includes(arg) || (boolean && isBooleanValue(next)))) {
+					i++;
+					parsed.remainingArgs.push(next);
+				} else if (separateValue && !boolean && parsed.command === "deploy" && !parsed.entryPoint) {
+					// A flag wrongler doesn't know: its value and the entry point look the same
+					parsed.errors.push(
+						`Unknown flag ${arg}: can't tell whether "${next}" is its value or the entry point. ` +
+							`Write ${arg}=${next}, or put the entry point first.`
+					);
+					i++;
+					parsed.remainingArgs.push(next);
 				}
-				break;
+			}
+			i++;
+			continue;
+		}
 
-			case "--minify":
-				parsed.minify = true;
-				break;
+		// Short flags, possibly combined: -ve staging, -cwrangler.toml
+		const letters = arg.slice(1);
+		const valueAt = letters.split("").findIndex((letter) => findSpec(letter)?.type !== "boolean");
+		const flagLetters = valueAt === -1 ? letters : letters.slice(0, valueAt + 1);
+		if (!flagLetters.split("").every((letter) => findSpec(letter))) {
+			// Unknown short flag - add to remaining args
+			parsed.remainingArgs.push(arg);
+			i++;
+			continue;
+		}
 
-			case "--no-bundle":
-				parsed.noBundle = true;
+		for (let j = 0; j < letters.length; j++) {
+			const spec = findSpec(letters[j])!;
+			if (spec.type !== "boolean") {
+				// The rest of the group, or the next token, is the value
+				const rest = letters.slice(j + 1).replace(/^=/, "");
+				apply(spec, `-${letters[j]}`, rest || takeValue(spec));
 				break;
+			}
+			apply(spec, `-${letters[j]}`, undefined);
+		}
+		i++;
+	}
 
-			case "--dry-run":
-				parsed.dryRun = true;
-				break;
+	return parsed;
+}
 
-			case "--config":
-			case "-c":
-				i++;
-				if (i < args.length) {
-					parsed.config = args[i];
-				}
-				break;
+/**
+ * Generates the help text for `wrongler deploy --yolo --help`
+ */
+export function formatYoloHelp(): string {
+	const rows = FLAG_SPECS.map((spec) => {
+		const shortAliases = (spec.aliases ?? []).filter((alias) => alias.length === 1).map((alias) => `-${alias}`);
+		const longAliases = (spec.aliases ?? []).filter((alias) => alias.length > 1).map((alias) => `--${alias}`);
+		const value = spec.type === "boolean" ? "" : spec.optionalValue ? ` [${spec.valueName}]` : ` <${spec.valueName}>`;
+		const flags = [...shortAliases, `--${spec.name}${value}`].join(", ");
 
-			default:
-				// Unknown flag - add to remaining args
-				parsed.remainingArgs.push(arg);
-				break;
+		let description = spec.description;
+		if (spec.choices) {
+			description += ` (${spec.choices.join(" | ")})`;
 		}
+		if (spec.repeatable) {
+			description += " [repeatable]";
+		}
+		if (longAliases.length > 0) {
+			description += ` [alias: ${longAliases.join(", ")}]`;
+		}
+		return { flags, description };
+	});
 
-		i++;
-	}
+	const width = Math.max(...rows.map((row) => row.flags.length)) + 2;
+	const lines = [
+		"Usage: wrongler deploy [script] --yolo [options] [-- <wrangler args>]",
+		"",
+		"Deploys the worker, then watches for changes and redeploys on every save.",
+		"",
+		"Options:",
+		...rows.map((row) => `  ${row.flags.padEnd(width)}${row.description}`),
+		"",
+		"Any other flags are passed through to `wrangler deploy`.",
+	];
 
-	return parsed;
+	return lines.join("\n");
 }
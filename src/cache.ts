@@ -2,19 +2,94 @@
  * Cache management for wrongler settings
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync, rmSync } from "node:fs";
 import path from "node:path";
 import os from "node:os";
 
+/**
+ * A version YOLO mode deployed that passed its checks, newest last
+ */
+export interface YoloVersion {
+	versionId: string;
+	deployedAt: string;
+	accountId?: string;
+	/** Build hash of the version, so redeploying identical code can be skipped after a rollback */
+	hash?: string;
+}
+
+/**
+ * The account chosen for a project, see getProjectKey
+ */
+export interface CachedAccount {
+	accountId: string;
+	accountName?: string;
+	selectedAt: string;
+}
+
+/**
+ * Which version history a deployment belongs to: the same worker name in
+ * another project (see getProjectKey), environment or account has its own
+ */
+export interface HistoryTarget {
+	projectKey: string;
+	name: string;
+	env?: string;
+	accountId?: string;
+}
+
+/**
+ * Bumped whenever the cache layout changes; older layouts are migrated on read
+ */
+const CACHE_VERSION = 3;
+
 interface CacheData {
+	version: number;
+	/** Account chosen per project */
+	accounts: Record<string, CachedAccount>;
+	/**
+	 * The single account ID cached for every project, as before version 2 and
+	 * by getCachedAccountId/setCachedAccountId. A project without its own
+	 * choice adopts it once, with a warning.
+	 */
+	legacyAccountId?: string;
+	/** YOLO version history per project, environment and account, see getHistoryKey */
+	yoloHistory: Record<string, YoloVersion[]>;
+	/**
+	 * YOLO version history per worker name, as before version 3. A target
+	 * without history of its own reads the entries deployed to its account,
+	 * and takes them over on its next write.
+	 */
+	legacyYoloVersions?: Record<string, YoloVersion[]>;
+	[key: string]: unknown;
+}
+
+/**
+ * Version 2: YOLO version history per worker name
+ */
+interface CacheDataV2 {
+	version: 2;
+	yoloVersions?: Record<string, YoloVersion[]>;
+	[key: string]: unknown;
+}
+
+/**
+ * Version 1: one global account ID, no version field
+ */
+interface CacheDataV1 {
 	accountId?: string;
+	yoloVersions?: Record<string, YoloVersion[]>;
 	[key: string]: unknown;
 }
 
+/**
+ * How many versions are kept per worker
+ */
+const MAX_YOLO_VERSIONS = 20;
+
 /**
  * Gets the path to wrongler's cache directory
  */
-function getCacheDir(): string {
+export function getCacheDir(): string {
 	const homeDir = os.homedir();
 	return path.join(homeDir, ".wrongler");
 }
@@ -29,7 +104,7 @@ function getCachePath(): string {
 /**
  * Ensures the cache directory exists
  */
-function ensureCacheDir(): void {
+export function ensureCacheDir(): void {
 	const cacheDir = getCacheDir();
 	if (!existsSync(cacheDir)) {
 		mkdirSync(cacheDir, { recursive: true });
@@ -37,51 +112,233 @@ function ensureCacheDir(): void {
 }
 
 /**
- * Reads the cache file
+ * Identifies a project's account choice by its wrangler config and worker
+ * name, so two workers sharing a directory can use different accounts
+ */
+export function getProjectKey(configPath: string, workerName: string): string {
+	return `${path.resolve(configPath)}#${workerName}`;
+}
+
+/**
+ * Identifies a version history in the cache
+ */
+function getHistoryKey(target: HistoryTarget): string {
+	return JSON.stringify([target.projectKey, target.env ?? null, target.accountId ?? null]);
+}
+
+/**
+ * Brings cache data of any earlier version up to the current layout
+ */
+function migrateCache(data: Record<string, unknown>): CacheData {
+	let migrated = data;
+	if (typeof migrated.version !== "number" || migrated.version < 2) {
+		// Version 1 -> 2: the global account ID can't be assigned to a project yet
+		const { accountId, ...rest } = migrated as CacheDataV1;
+		migrated = { ...rest, version: 2, accounts: {}, legacyAccountId: accountId };
+	}
+
+	if (migrated.version === 2) {
+		// Version 2 -> 3: the project and environment of a worker name's history
+		// aren't known, so it's taken over by the first target that uses it
+		const { yoloVersions, ...rest } = migrated as CacheDataV2;
+		migrated = { ...rest, version: CACHE_VERSION, yoloHistory: {}, legacyYoloVersions: yoloVersions };
+	}
+
+	// Later versions only add fields, which are kept as they are
+	const current = migrated as Partial<CacheData> & { version: number };
+	return { ...current, accounts: current.accounts ?? {}, yoloHistory: current.yoloHistory ?? {} };
+}
+
+/**
+ * Reads the cache file, migrating older layouts
  */
 function readCache(): CacheData {
 	const cachePath = getCachePath();
+	const empty: CacheData = { version: CACHE_VERSION, accounts: {}, yoloHistory: {} };
 	if (!existsSync(cachePath)) {
-		return {};
+		return empty;
 	}
 
 	try {
-		const content = readFileSync(cachePath, "utf-8");
-		return JSON.parse(content) as CacheData;
+		const content = JSON.parse(readFileSync(cachePath, "utf-8")) as unknown;
+		if (!content || typeof content !== "object" || Array.isArray(content)) {
+			return empty;
+		}
+		return migrateCache(content as Record<string, unknown>);
 	} catch {
-		return {};
+		return empty;
 	}
 }
 
 /**
- * Writes to the cache file
+ * Writes the cache file. The data goes to a temporary file that is then
+ * renamed over the cache, so a crash or a concurrent session never leaves a
+ * half-written file behind.
  */
 function writeCache(data: CacheData): void {
 	ensureCacheDir();
 	const cachePath = getCachePath();
-	writeFileSync(cachePath, JSON.stringify(data, null, 2), "utf-8");
+	const tempPath = `${cachePath}.${process.pid}.tmp`;
+	try {
+		writeFileSync(tempPath, JSON.stringify(data, null, 2), "utf-8");
+		renameSync(tempPath, cachePath);
+	} catch (error) {
+		rmSync(tempPath, { force: true });
+		throw error;
+	}
 }
 
 /**
- * Gets the cached account ID
+ * Gets the account chosen for a project
  */
-export function getCachedAccountId(): string | undefined {
+export function getProjectAccount(projectKey: string): CachedAccount | undefined {
+	return readCache().accounts[projectKey];
+}
+
+/**
+ * Gets the cached account ID for a project
+ */
+export function getProjectAccountId(projectKey: string): string | undefined {
+	return getProjectAccount(projectKey)?.accountId;
+}
+
+/**
+ * Sets the cached account ID for a project
+ */
+export function setProjectAccountId(projectKey: string, accountId: string, accountName?: string): void {
 	const cache = readCache();
-	return cache.accountId;
+	cache.accounts[projectKey] = { accountId, accountName, selectedAt: new Date().toISOString() };
+	writeCache(cache);
+}
+
+/**
+ * Gets the account ID cached for all projects. Projects with an account of
+ * their own ignore it; see getProjectAccountId.
+ */
+export function getCachedAccountId(): string | undefined {
+	return readCache().legacyAccountId;
 }
 
 /**
- * Sets the cached account ID
+ * Sets the account ID cached for all projects. Projects without an account of
+ * their own adopt it on their next deploy; see setProjectAccountId.
  */
 export function setCachedAccountId(accountId: string): void {
 	const cache = readCache();
-	cache.accountId = accountId;
+	cache.legacyAccountId = accountId;
+	writeCache(cache);
+}
+
+/**
+ * Forgets the account chosen for a project. Returns false if there was none.
+ */
+export function forgetProjectAccount(projectKey: string): boolean {
+	const cache = readCache();
+	if (!cache.accounts[projectKey]) {
+		return false;
+	}
+
+	delete cache.accounts[projectKey];
+	writeCache(cache);
+	return true;
+}
+
+/**
+ * Forgets the accounts chosen for all projects, including the one cached by
+ * older versions. Version history is kept. Returns how many were forgotten.
+ */
+export function forgetAllAccounts(): number {
+	const cache = readCache();
+	const count = Object.keys(cache.accounts).length + (cache.legacyAccountId ? 1 : 0);
+	cache.accounts = {};
+	delete cache.legacyAccountId;
+	writeCache(cache);
+	return count;
+}
+
+/**
+ * Gets the account ID cached for all projects, by wrongler before version 2
+ * or setCachedAccountId
+ */
+export function getLegacyAccountId(): string | undefined {
+	return readCache().legacyAccountId;
+}
+
+/**
+ * Pins the account ID cached for all projects to a project that has no
+ * account of its own. Returns the adopted ID, if there was one.
+ */
+export function adoptLegacyAccountId(projectKey: string): string | undefined {
+	const cache = readCache();
+	if (!cache.legacyAccountId || cache.accounts[projectKey]) {
+		return undefined;
+	}
+
+	cache.accounts[projectKey] = { accountId: cache.legacyAccountId, selectedAt: new Date().toISOString() };
+	writeCache(cache);
+	return cache.legacyAccountId;
+}
+
+/**
+ * The versions a worker name's history from before version 3 holds for an
+ * account
+ */
+function getLegacyYoloVersions(cache: CacheData, name: string, accountId: string | undefined): YoloVersion[] {
+	return (cache.legacyYoloVersions?.[name] ?? []).filter((version) => version.accountId === accountId);
+}
+
+/**
+ * Gets the YOLO version history for a project, environment and account,
+ * oldest first
+ */
+export function getYoloVersions(target: HistoryTarget): YoloVersion[] {
+	const cache = readCache();
+	return cache.yoloHistory[getHistoryKey(target)] ?? getLegacyYoloVersions(cache, target.name, target.accountId);
+}
+
+/**
+ * Replaces the YOLO version history for a project, environment and account,
+ * keeping the newest entries. The target takes over the entries it read from
+ * the history kept before version 3.
+ */
+export function setYoloVersions(target: HistoryTarget, versions: YoloVersion[]): void {
+	const cache = readCache();
+	cache.yoloHistory[getHistoryKey(target)] = versions.slice(-MAX_YOLO_VERSIONS);
+
+	const legacy = cache.legacyYoloVersions?.[target.name];
+	if (cache.legacyYoloVersions && legacy) {
+		const remaining = legacy.filter((version) => version.accountId !== target.accountId);
+		if (remaining.length > 0) {
+			cache.legacyYoloVersions[target.name] = remaining;
+		} else {
+			delete cache.legacyYoloVersions[target.name];
+		}
+	}
 	writeCache(cache);
 }
 
+/**
+ * Gets the version YOLO mode deployed last for a project and environment,
+ * to any account
+ */
+export function getLastYoloVersion(target: Omit<HistoryTarget, "accountId">): YoloVersion | undefined {
+	const cache = readCache();
+	const candidates = [...(cache.legacyYoloVersions?.[target.name] ?? [])];
+	for (const [key, versions] of Object.entries(cache.yoloHistory)) {
+		const [projectKey, env] = JSON.parse(key) as [string, string | null, string | null];
+		if (projectKey === target.projectKey && env === (target.env ?? null)) {
+			candidates.push(...versions);
+		}
+	}
+	return candidates.reduce<YoloVersion | undefined>(
+		(latest, version) => (!latest || version.deployedAt > latest.deployedAt ? version : latest),
+		undefined
+	);
+}
+
 /**
  * Clears the cache
  */
 export function clearCache(): void {
-	writeCache({});
+	writeCache({ version: CACHE_VERSION, accounts: {}, yoloHistory: {} });
 }
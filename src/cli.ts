@@ -1,57 +1,116 @@
 #!/usr/bin/env node
 
-import { spawn } from "node:child_process";
 import path from "node:path";
 import { existsSync } from "node:fs";
 import chalk from "chalk";
-import { parseArgs } from "./args";
-import { loadConfig } from "./config";
+import { parseArgs, formatYoloHelp } from "./args";
+import { loadConfig, parseConfig, resolveEnvironment, hasEnvironment } from "./config";
 import { startYoloMode } from "./yolo/watch";
-import type { DeployParams } from "./yolo/deploy";
-import { getCachedAccountId } from "./cache";
+import { buildDeployParams } from "./yolo/params";
+import { getDroppedUploadArgs, partitionPassthroughArgs, type DeployParams } from "./yolo/deploy";
+import { findAccount, getAccountsWithLogin, isAccountId, selectAccount, type PromptOptions } from "./account";
+import {
+	adoptLegacyAccountId,
+	getLastYoloVersion,
+	getProjectAccountId,
+	getProjectKey,
+	setProjectAccountId,
+} from "./cache";
+import { loadSettings, SETTINGS_FILE_NAME, type WronglerSettings } from "./settings";
+import { toPreDeployChecks, type PreDeployCheck } from "./yolo/checks";
+import { toSmokeBaseUrl, toSmokeChecks, toSmokeOptions, type SmokeOptions } from "./yolo/smoke";
+import { toRolloutOptions, type RolloutOptions } from "./yolo/rollout";
+import { DEFAULT_CONTROL_PORT } from "./yolo/control-server";
+import { handleYoloCommand } from "./commands/yolo";
+import { handleHistoryCommand } from "./commands/history";
+import { handleAccountCommand } from "./commands/account";
+import { handleProfileCommand } from "./commands/profile";
+import { activateProfile } from "./profiles";
+import { getWranglerVersion, resolveWrangler, spawnWrangler, WRANGLER_PATH_ENV } from "./wrangler-runner";
+import type { Config } from "./types";
 
 // Parse command line arguments
 const args = process.argv.slice(2);
 
-// Check if wrangler is installed
-function checkWranglerInstalled(): boolean {
-	try {
-		// Try to resolve wrangler
-		require.resolve("wrangler");
-		return true;
-	} catch {
-		return false;
+// Remove wrongler's --wrangler-path flag from arguments meant for wrangler
+function withoutWranglerPathFlag(args: string[]): string[] {
+	const result: string[] = [];
+	for (let i = 0; i < args.length; i++) {
+		if (args[i] === "--") {
+			result.push(...args.slice(i));
+			break;
+		}
+		if (args[i] === "--wrangler-path") {
+			i++;
+		} else if (!args[i].startsWith("--wrangler-path=")) {
+			result.push(args[i]);
+		}
 	}
+	return result;
 }
 
 // Main CLI logic
 async function main() {
-	// Display warning that this is NOT the official Wrangler
-	console.log(chalk.yellow.bold("\n⚠️  WARNING: You are using WRONG-ler, not Wrangler!"));
-	console.log(chalk.yellow("   This is an experimental wrapper for fun purposes only."));
-	console.log(chalk.yellow("   Looking for the official Cloudflare CLI tool?"));
-	console.log(chalk.cyan("   → https://www.npmjs.com/package/wrangler\n"));
+	// Display warning that this is NOT the official Wrangler. It goes to
+	// stderr so that JSON output on stdout stays parseable.
+	console.error(chalk.yellow.bold("\n⚠️  WARNING: You are using WRONG-ler, not Wrangler!"));
+	console.error(chalk.yellow("   This is an experimental wrapper for fun purposes only."));
+	console.error(chalk.yellow("   Looking for the official Cloudflare CLI tool?"));
+	console.error(chalk.cyan("   → https://www.npmjs.com/package/wrangler\n"));
+
+	// Parse arguments
+	const parsed = parseArgs(args);
+
+	// Every wrangler wrongler runs, including those of child processes, picks this up
+	if (parsed.wranglerPath) {
+		process.env[WRANGLER_PATH_ENV] = path.resolve(parsed.wranglerPath);
+	}
 
 	// Check if wrangler is installed
-	if (!checkWranglerInstalled()) {
-		console.error("Error: wrangler is not installed.");
+	try {
+		resolveWrangler();
+	} catch (error) {
+		console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
 		console.error("");
 		console.error("Wrongler requires wrangler to be installed as a peer dependency.");
-		console.error("Install it with: npm install wrangler");
 		console.error("");
 		process.exit(1);
 	}
 
-	// Parse arguments
-	const parsed = parseArgs(args);
+	// Check if this is a deploy command with --yolo flag. An invalid
+	// `--yolo=<mode>` still counts, so its error is reported below.
+	const yoloRequested = parsed.yolo || args.some((arg) => arg.startsWith("--yolo="));
+	if (parsed.command === "deploy" && yoloRequested) {
+		if (parsed.help) {
+			console.log(formatYoloHelp());
+			console.log("");
+			return;
+		}
+
+		if (parsed.errors.length > 0) {
+			for (const error of parsed.errors) {
+				console.error(`Error: ${error}`);
+			}
+			console.error("");
+			console.error("Run `wrongler deploy --yolo --help` for the list of options.");
+			console.error("");
+			process.exit(1);
+		}
 
-	// Check if this is a deploy command with --yolo flag
-	if (parsed.command === "deploy" && parsed.yolo) {
 		// Handle YOLO mode
 		await handleYoloMode(parsed);
+	} else if (parsed.command === "yolo") {
+		// wrongler's own commands for YOLO deployments
+		await handleYoloCommand(parsed);
+	} else if (parsed.command === "history") {
+		await handleHistoryCommand(parsed);
+	} else if (parsed.command === "account") {
+		await handleAccountCommand(parsed);
+	} else if (parsed.command === "profile") {
+		await handleProfileCommand(parsed);
 	} else {
 		// Pass through all other commands to wrangler
-		passThroughWrangler(args);
+		passThroughWrangler(withoutWranglerPathFlag(args));
 	}
 }
 
@@ -59,16 +118,49 @@ async function main() {
 async function handleYoloMode(parsed: ReturnType<typeof parseArgs>) {
 	const projectRoot = process.cwd();
 
-	// Load config from wrangler.toml
-	const config = loadConfig(projectRoot);
-	if (!config) {
-		console.error("Error: Could not find wrangler.toml in the current directory.");
+	// With --output=json, stdout carries only events: progress messages go to
+	// stderr and wrangler's output is captured rather than shown
+	const log = parsed.output === "json" ? console.error : console.log;
+	if (parsed.output === "json" && parsed.verbose) {
+		console.warn(chalk.yellow("⚠️  --verbose has no effect with --output=json.\n"));
+		parsed.verbose = false;
+	}
+
+	// Load config from wrangler.toml / wrangler.json / wrangler.jsonc
+	let rawConfig: Config | null;
+	try {
+		rawConfig = loadConfig(projectRoot, parsed.config);
+	} catch (error) {
+		console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
 		console.error("");
-		console.error("YOLO mode requires a wrangler.toml configuration file.");
+		process.exit(1);
+	}
+	if (!rawConfig) {
+		console.error("Error: Could not find a wrangler config file in the current directory.");
+		console.error("");
+		console.error("YOLO mode requires a wrangler.toml, wrangler.json or wrangler.jsonc configuration file.");
 		console.error("");
 		process.exit(1);
 	}
 
+	// Apply [env.<name>] overrides so name, main, vars etc. match what wrangler deploys
+	if (parsed.env && !hasEnvironment(rawConfig, parsed.env)) {
+		console.warn(chalk.yellow(`⚠️  No environment named "${parsed.env}" found in ${path.basename(rawConfig.configPath ?? "wrangler.toml")}.`));
+		console.warn(chalk.yellow("   Falling back to the top-level configuration.\n"));
+	}
+	const config = resolveEnvironment(rawConfig, parsed.env);
+
+	// Which wrangler runs matters in monorepos, where several may be installed
+	if (parsed.verbose) {
+		const wrangler = resolveWrangler(projectRoot);
+		const source = {
+			override: parsed.wranglerPath ? "--wrangler-path" : WRANGLER_PATH_ENV,
+			project: "project",
+			wrongler: "installed with wrongler",
+		}[wrangler.source];
+		log(chalk.dim(`🔧 wrangler ${getWranglerVersion(wrangler) ?? "(unknown version)"} from ${wrangler.path} (${source})\n`));
+	}
+
 	// Determine entry point
 	const entryPoint = parsed.entryPoint || config.main || "./src/index.ts";
 	const entryPath = path.resolve(projectRoot, entryPoint);
@@ -94,23 +186,66 @@ async function handleYoloMode(parsed: ReturnType<typeof parseArgs>) {
 		process.exit(1);
 	}
 
-	// Determine account ID (check config, then cache, then prompt)
+	// Determine account ID (check --account, config, then this project's cached choice, then prompt)
 	let accountId = config.account_id;
+	const configPath = rawConfig.configPath ?? path.join(projectRoot, "wrangler.toml");
+	const projectKey = getProjectKey(configPath, workerName);
 
-	if (!accountId) {
+	// An API token from a credential profile replaces `wrangler login`
+	try {
+		const profile = activateProfile(parsed.profile, projectKey);
+		if (profile) {
+			log(`🔑 Using credential profile: ${profile}`);
+		}
+	} catch (error) {
+		console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+		console.error("");
+		process.exit(1);
+	}
+	const envAccountId = process.env.CLOUDFLARE_ACCOUNT_ID;
+	// Login and account prompts must not end up between the JSON events
+	const promptOptions: PromptOptions = { output: parsed.output === "json" ? process.stderr : process.stdout };
+
+	if (parsed.account) {
+		// A one-off choice: names are looked up, and nothing is cached
+		try {
+			accountId = isAccountId(parsed.account)
+				? parsed.account
+				: findAccount(await getAccountsWithLogin(promptOptions), parsed.account).id;
+		} catch (error) {
+			console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+			console.error("");
+			process.exit(1);
+		}
+		log(`✓ Using account from --account: ${accountId}\n`);
+	} else if (envAccountId) {
+		// wrangler prefers the environment over the config too
+		accountId = envAccountId;
+		log(`✓ Using account ID from CLOUDFLARE_ACCOUNT_ID: ${accountId}\n`);
+	} else if (!accountId) {
 		// Check cache
-		accountId = getCachedAccountId();
+		accountId = getProjectAccountId(projectKey);
+
+		if (!accountId) {
+			// Older wronglers cached one account for every project
+			accountId = adoptLegacyAccountId(projectKey);
+			if (accountId) {
+				console.warn(chalk.yellow(`⚠️  Using the account ID an earlier wrongler cached for all projects: ${accountId}`));
+				console.warn(chalk.yellow("   It is now remembered for this project only. Run `wrongler account use` to pick another.\n"));
+			}
+		} else {
+			// Account ID found in cache
+			log(`✓ Using cached account ID for this project: ${accountId}\n`);
+		}
 
 		if (!accountId) {
 			// No account ID in config or cache - fetch and prompt for selection
-			console.log("ℹ️  No account_id found in wrangler.toml or cache.");
-			console.log("   Fetching available accounts...\n");
+			log("ℹ️  No account_id found in wrangler.toml or cache.");
+			log("   Fetching available accounts...\n");
 
 			try {
-				const { getAccountsWithLogin, selectAccount } = await import('./account');
-
 				// This will handle login if necessary
-				const accounts = await getAccountsWithLogin();
+				const accounts = await getAccountsWithLogin(promptOptions);
 
 				if (accounts.length === 0) {
 					console.error("\n❌ No Cloudflare accounts found.");
@@ -121,89 +256,170 @@ async function handleYoloMode(parsed: ReturnType<typeof parseArgs>) {
 				}
 
 				// Prompt user to select an account
-				accountId = await selectAccount(accounts);
+				const selectedId = await selectAccount(accounts, promptOptions);
+				accountId = selectedId;
 
-				// Cache the selection
-				const { setCachedAccountId } = await import('./cache');
-				setCachedAccountId(accountId);
+				// Cache the selection for this project
+				setProjectAccountId(projectKey, selectedId, accounts.find((account) => account.id === selectedId)?.name);
 
-				console.log("💾 Account ID cached for future deployments");
-				console.log(`   You can also add this to wrangler.toml: account_id = "${accountId}"\n`);
+				log("💾 Account ID cached for future deployments of this project");
+				log(`   You can also add this to wrangler.toml: account_id = "${accountId}"\n`);
 			} catch (error) {
 				console.error("\n❌ Error:", error instanceof Error ? error.message : String(error));
 				console.error("");
 				process.exit(1);
 			}
 		} else {
-			// Account ID found in cache
-			console.log(`✓ Using cached account ID: ${accountId}\n`);
+			// A cached choice that doesn't match the worker's last deploy is probably a mix-up
+			const lastAccountId = getLastYoloVersion({ projectKey, name: workerName, env: parsed.env })?.accountId;
+			if (lastAccountId && lastAccountId !== accountId) {
+				console.warn(chalk.yellow(`⚠️  ${workerName} was last deployed to account ${lastAccountId}, not ${accountId}.`));
+				console.warn(chalk.yellow("   Run `wrongler account use <name-or-id>` if this is the wrong account.\n"));
+			}
 		}
 	} else {
 		// Account ID found in config
-		console.log(`✓ Using account ID from wrangler.toml: ${accountId}\n`);
+		log(`✓ Using account ID from wrangler.toml: ${accountId}\n`);
 	}
 
-	// Build deploy parameters
-	const deployParams: DeployParams = {
-		config,
-		accountId,
-		entry: {
-			file: entryPath,
-			format: "modules",
-		},
-		rules: config.rules,
-		name: workerName,
-		env: parsed.env,
-		compatibilityDate: parsed.compatibilityDate || config.compatibility_date,
-		compatibilityFlags: parsed.compatibilityFlags || config.compatibility_flags,
-		legacyAssetPaths: undefined,
-		assetsOptions: undefined,
-		vars: config.vars,
-		defines: config.define,
-		alias: undefined,
-		triggers: undefined,
-		routes: undefined,
-		domains: undefined,
-		useServiceEnvironments: undefined,
-		jsxFactory: undefined,
-		jsxFragment: undefined,
-		tsconfig: undefined,
-		isWorkersSite: false,
-		minify: parsed.minify,
-		outDir: undefined,
-		outFile: undefined,
-		dryRun: parsed.dryRun,
-		noBundle: parsed.noBundle,
-		keepVars: undefined,
-		logpush: undefined,
-		uploadSourceMaps: undefined,
-		oldAssetTtl: undefined,
+	// Build deploy parameters from the resolved config and CLI flags
+	const deployParams = buildDeployParams(config, parsed, {
 		projectRoot,
-		dispatchNamespace: undefined,
-		experimentalAutoCreate: false,
-		metafile: undefined,
-		containersRollout: undefined,
-		strict: undefined,
-		verbose: parsed.verbose,
+		entryPath,
+		workerName,
+		accountId,
+	});
+
+	// Unknown flags are forwarded to wrangler, except ones wrongler already sets
+	const { conflicts } = partitionPassthroughArgs(deployParams);
+	for (const conflict of conflicts) {
+		console.warn(chalk.yellow(`⚠️  Ignoring "${conflict}": wrongler already sets this flag for YOLO deploys.`));
+	}
+	if (conflicts.length > 0) {
+		console.warn("");
+	}
+
+	// `wrangler versions upload` doesn't take the flags that only apply to a full deploy
+	const dropped = getDroppedUploadArgs(deployParams);
+	for (const arg of dropped) {
+		console.warn(chalk.yellow(`⚠️  Ignoring "${arg}": it only applies to full deploys, not version uploads.`));
+	}
+	if (dropped.length > 0) {
+		console.warn("");
+	}
+
+	// Pre-deploy checks from .wronglerrc.json plus any --check flags
+	let settings: WronglerSettings;
+	try {
+		settings = loadSettings(projectRoot);
+	} catch (error) {
+		console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+		console.error("");
+		process.exit(1);
+	}
+	let checks: PreDeployCheck[];
+	try {
+		checks = toPreDeployChecks(settings.checks);
+	} catch (error) {
+		console.error(`Error: Invalid checks in ${SETTINGS_FILE_NAME}: ${error instanceof Error ? error.message : String(error)}`);
+		console.error("");
+		process.exit(1);
+	}
+	if (parsed.checks?.some((command) => !command.trim())) {
+		console.error("Error: --check requires a command");
+		console.error("");
+		process.exit(1);
+	}
+	checks.push(...toPreDeployChecks(parsed.checks));
+
+	// Post-deploy smoke tests, likewise from .wronglerrc.json plus --smoke flags
+	let smoke: SmokeOptions;
+	try {
+		smoke = toSmokeOptions(settings.smoke);
+	} catch (error) {
+		console.error(`Error: Invalid smoke settings in ${SETTINGS_FILE_NAME}: ${error instanceof Error ? error.message : String(error)}`);
+		console.error("");
+		process.exit(1);
+	}
+	if (parsed.smoke?.some((smokePath) => !smokePath.trim())) {
+		console.error("Error: --smoke requires a path");
+		console.error("");
+		process.exit(1);
+	}
+	smoke.checks.push(...toSmokeChecks(parsed.smoke));
+	if (parsed.smokeBaseUrl !== undefined) {
+		try {
+			smoke.baseUrl = toSmokeBaseUrl(parsed.smokeBaseUrl);
+		} catch (error) {
+			console.error(`Error: --smoke-base-url ${error instanceof Error ? error.message : String(error)}`);
+			console.error("");
+			process.exit(1);
+		}
+	}
+
+	// Traffic steps for --yolo=gradual, from .wronglerrc.json or --rollout-* flags
+	let rollout: RolloutOptions | undefined;
+	if (deployParams.mode === "gradual") {
+		try {
+			rollout = toRolloutOptions(settings.rollout, parsed.rolloutSteps, parsed.rolloutInterval);
+		} catch (error) {
+			console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+			console.error("");
+			process.exit(1);
+		}
+	}
+
+	// Local control server, off unless --control-port is given
+	const controlPort = parsed.controlPort === true ? DEFAULT_CONTROL_PORT : (parsed.controlPort as number | undefined);
+	if (controlPort !== undefined && (!Number.isInteger(controlPort) || controlPort < 0 || controlPort > 65535)) {
+		console.error(`Error: --control-port expects a port number between 0 and 65535 (got ${controlPort})`);
+		console.error("");
+		process.exit(1);
+	}
+
+	// Re-reads the config when it changes during the session. Invalid edits
+	// throw, so the watcher keeps deploying with the last good config.
+	const reloadDeployParams = (): DeployParams => {
+		const reloaded = resolveEnvironment(parseConfig(configPath), parsed.env);
+
+		const reloadedEntryPoint = parsed.entryPoint || reloaded.main || "./src/index.ts";
+		const reloadedEntryPath = path.resolve(projectRoot, reloadedEntryPoint);
+		if (!existsSync(reloadedEntryPath)) {
+			throw new Error(`Entry point file not found: ${reloadedEntryPoint}`);
+		}
+
+		const reloadedName = parsed.name || reloaded.name;
+		if (!reloadedName) {
+			throw new Error("Worker name not specified");
+		}
+
+		return buildDeployParams(reloaded, parsed, {
+			projectRoot,
+			entryPath: reloadedEntryPath,
+			workerName: reloadedName,
+			// --account and CLOUDFLARE_ACCOUNT_ID win over the config, as they did at startup
+			accountId: parsed.account || envAccountId ? accountId : (reloaded.account_id ?? accountId),
+		});
 	};
 
 	// Start YOLO mode
 	await startYoloMode(deployParams, {
 		verbose: parsed.verbose || false,
 		debounceMs: 50,
+		reloadDeployParams,
+		latestWins: parsed.latestWins,
+		checks,
+		smoke,
+		rollout,
+		output: parsed.output,
+		controlPort,
 	});
 }
 
 // Pass command through to wrangler
 function passThroughWrangler(args: string[]) {
-	// Find wrangler binary
-	const wranglerPath = require.resolve("wrangler/bin/wrangler.js");
-
 	// Spawn wrangler process
-	const wrangler = spawn("node", [wranglerPath, ...args], {
-		stdio: "inherit",
-		shell: false,
-	});
+	const wrangler = spawnWrangler(args, { stdio: "inherit" });
 
 	wrangler.on("error", (error) => {
 		console.error("Error spawning wrangler:", error);
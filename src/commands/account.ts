@@ -0,0 +1,250 @@
+/**
+ * `wrongler account <subcommand>` - shows and changes the Cloudflare account
+ * YOLO mode deploys a project to
+ */
+
+import { parseArgs as parseCommandArgs } from "node:util";
+import chalk from "chalk";
+import { findAccount, getAccountsWithLogin } from "../account";
+import type { ParsedArgs } from "../args";
+import {
+	forgetAllAccounts,
+	forgetProjectAccount,
+	getLegacyAccountId,
+	getProjectAccount,
+	setProjectAccountId,
+} from "../cache";
+import { requireProject, resolveProject } from "../config";
+import { activateProfile } from "../profiles";
+
+/**
+ * Prints usage for the account subcommands
+ */
+function printAccountUsage(): void {
+	console.log("Usage: wrongler account <command>");
+	console.log("");
+	console.log("Commands:");
+	console.log("  list                  List the Cloudflare accounts you can deploy to");
+	console.log("  current               Show which account this project deploys to");
+	console.log("  use <name-or-id>      Deploy this project to another account");
+	console.log("  forget [--all]        Forget this project's account (or every project's)");
+	console.log("");
+	console.log("Options:");
+	console.log("  --name <name>         Worker name (default: from the wrangler config)");
+	console.log("  -e, --env <name>      Environment the worker belongs to");
+	console.log("  -c, --config <path>   Wrangler config to read the worker from");
+	console.log("  --json                Print JSON (list and current) [alias: --output json]");
+	console.log("");
+}
+
+/**
+ * Prints an error and exits
+ */
+function fail(message: string): never {
+	console.error(`Error: ${message}`);
+	console.error("");
+	process.exit(1);
+}
+
+/**
+ * Runs a project lookup, exiting with its error if it fails
+ */
+function orFail<T>(lookup: () => T): T {
+	try {
+		return lookup();
+	} catch (error) {
+		fail(error instanceof Error ? error.message : String(error));
+	}
+}
+
+/**
+ * Handles `wrongler account list`
+ */
+async function handleList(parsed: ParsedArgs, json: boolean): Promise<void> {
+	const project = orFail(() => resolveProject(parsed));
+	const currentId = project?.configAccountId ?? (project && getProjectAccount(project.projectKey)?.accountId);
+
+	let accounts;
+	try {
+		// Keep login prompts out of the JSON
+		accounts = await getAccountsWithLogin({ output: json ? process.stderr : process.stdout });
+	} catch (error) {
+		fail(error instanceof Error ? error.message : String(error));
+	}
+
+	if (json) {
+		console.log(JSON.stringify(accounts.map((account) => ({ ...account, current: account.id === currentId })), null, 2));
+		return;
+	}
+
+	if (accounts.length === 0) {
+		console.log(chalk.gray("No Cloudflare accounts found."));
+		console.log("");
+		return;
+	}
+
+	const width = Math.max("Name".length, ...accounts.map((account) => account.name.length));
+	console.log(chalk.bold(`  ${"Name".padEnd(width)}  ID`));
+	for (const account of accounts) {
+		const row = `${account.name.padEnd(width)}  ${account.id}`;
+		console.log(account.id === currentId ? chalk.green(`* ${row}`) : `  ${row}`);
+	}
+	if (project && currentId) {
+		console.log(chalk.gray(`\n* the account ${project.workerName} deploys to`));
+	}
+	console.log("");
+}
+
+/**
+ * Handles `wrongler account current`
+ */
+function handleCurrent(parsed: ParsedArgs, json: boolean): void {
+	const { workerName, projectKey, configAccountId } = orFail(() => requireProject(parsed));
+	const envAccountId = process.env.CLOUDFLARE_ACCOUNT_ID;
+	const cached = getProjectAccount(projectKey);
+	const legacyAccountId = getLegacyAccountId();
+
+	// Same order as `wrongler deploy --yolo` (without --account)
+	let current: { source: string; accountId?: string; accountName?: string; selectedAt?: string };
+	let description: string;
+	if (envAccountId) {
+		current = { source: "env", accountId: envAccountId };
+		description = `${workerName} deploys to ${envAccountId} (CLOUDFLARE_ACCOUNT_ID)`;
+	} else if (configAccountId) {
+		current = { source: "config", accountId: configAccountId };
+		description = `${workerName} deploys to ${configAccountId} (account_id in the wrangler config)`;
+	} else if (cached) {
+		current = { source: "cache", ...cached };
+		const name = cached.accountName ? `${cached.accountName} (${cached.accountId})` : cached.accountId;
+		description = `${workerName} deploys to ${name}, chosen ${new Date(cached.selectedAt).toLocaleString()}`;
+	} else if (legacyAccountId) {
+		current = { source: "legacy-cache", accountId: legacyAccountId };
+		description = `${workerName} will deploy to ${legacyAccountId}, the account an earlier wrongler cached for all projects`;
+	} else {
+		current = { source: "none" };
+		description = `No account chosen for ${workerName} yet - YOLO mode will ask on the next deploy`;
+	}
+
+	if (json) {
+		console.log(JSON.stringify({ worker: workerName, ...current }, null, 2));
+		return;
+	}
+	console.log(description);
+	console.log("");
+}
+
+/**
+ * Handles `wrongler account use <name-or-id>`
+ */
+async function handleUse(parsed: ParsedArgs, nameOrId: string | undefined): Promise<void> {
+	if (!nameOrId) {
+		fail("Expected an account name or ID, e.g. `wrongler account use \"My Account\"`");
+	}
+	const { workerName, projectKey, configAccountId } = orFail(() => requireProject(parsed));
+
+	let account;
+	try {
+		account = findAccount(await getAccountsWithLogin(), nameOrId);
+	} catch (error) {
+		fail(error instanceof Error ? error.message : String(error));
+	}
+
+	setProjectAccountId(projectKey, account.id, account.name);
+	console.log(chalk.green(`✓ ${workerName} will deploy to ${account.name} (${account.id})`));
+	if (configAccountId && configAccountId !== account.id) {
+		console.warn(chalk.yellow(`⚠️  account_id in the wrangler config (${configAccountId}) still takes precedence.`));
+	}
+	console.log("");
+}
+
+/**
+ * Handles `wrongler account forget [--all]`
+ */
+function handleForget(parsed: ParsedArgs, all: boolean): void {
+	if (all) {
+		const count = forgetAllAccounts();
+		if (count > 0) {
+			console.log(chalk.green(`✓ Forgot ${count} cached account choice${count === 1 ? "" : "s"}`));
+		} else {
+			console.log(chalk.gray("No accounts cached."));
+		}
+		console.log("");
+		return;
+	}
+
+	const { workerName, projectKey } = orFail(() => requireProject(parsed));
+	if (forgetProjectAccount(projectKey)) {
+		console.log(chalk.green(`✓ Forgot the account of ${workerName} - YOLO mode will ask on the next deploy`));
+	} else {
+		console.log(chalk.gray(`No account cached for ${workerName}.`));
+	}
+	console.log("");
+}
+
+/**
+ * Dispatches `wrongler account <subcommand>`
+ */
+export async function handleAccountCommand(parsed: ParsedArgs): Promise<void> {
+	let values: { json?: boolean; all?: boolean };
+	let positionals: string[];
+	try {
+		({ values, positionals } = parseCommandArgs({
+			args: parsed.remainingArgs,
+			options: {
+				json: { type: "boolean" },
+				all: { type: "boolean" },
+			},
+			strict: true,
+			allowPositionals: true,
+		}));
+	} catch (error) {
+		console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+		console.error("");
+		printAccountUsage();
+		process.exit(1);
+	}
+
+	const [subcommand, ...rest] = positionals;
+	const json = values.json ?? parsed.output === "json";
+
+	if (parsed.help) {
+		printAccountUsage();
+		return;
+	}
+
+	// Accounts are looked up with the same credentials a deploy would use
+	try {
+		activateProfile(parsed.profile, orFail(() => resolveProject(parsed))?.projectKey);
+	} catch (error) {
+		fail(error instanceof Error ? error.message : String(error));
+	}
+
+	switch (subcommand) {
+		case "list":
+			await handleList(parsed, json);
+			break;
+
+		case "current":
+			handleCurrent(parsed, json);
+			break;
+
+		case "use":
+			await handleUse(parsed, rest[0]);
+			break;
+
+		case "forget":
+			handleForget(parsed, values.all ?? false);
+			break;
+
+		default:
+			if (subcommand && subcommand !== "help") {
+				console.error(`Error: Unknown account command: ${subcommand}`);
+				console.error("");
+			}
+			printAccountUsage();
+			if (subcommand && subcommand !== "help") {
+				process.exit(1);
+			}
+			break;
+	}
+}
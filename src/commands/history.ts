@@ -0,0 +1,179 @@
+/**
+ * `wrongler history` - lists past YOLO deployments from the deployment log
+ */
+
+import { parseArgs as parseCommandArgs } from "node:util";
+import chalk from "chalk";
+import type { ParsedArgs } from "../args";
+import { getDeployLogPath, readDeployLog, type DeployLogEntry, type DeployOutcome } from "../deploy-log";
+
+const OUTCOME_COLORS: Record<DeployOutcome, (text: string) => string> = {
+	success: chalk.green,
+	failed: chalk.red,
+	blocked: chalk.magenta,
+	"rolled-back": chalk.yellow,
+};
+
+const RELATIVE_UNITS: Record<string, number> = {
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Prints usage for the history command
+ */
+function printHistoryUsage(): void {
+	console.log("Usage: wrongler history [options]");
+	console.log("");
+	console.log("Lists YOLO deployments, promotions and rollbacks, newest last.");
+	console.log("");
+	console.log("Options:");
+	console.log("  --name <name>        Only deployments of this worker");
+	console.log("  -e, --env <name>     Only deployments to this environment");
+	console.log("  --since <when>       Only deployments at or after a date (2026-10-01) or age (30m, 6h, 7d)");
+	console.log("  --until <when>       Only deployments at or before a date (up to the end of that day) or age");
+	console.log("  --limit <n>          Show only the newest n deployments (default 20, 0 for all)");
+	console.log("  --json               Print the entries as JSON [alias: --output json]");
+	console.log("");
+	console.log(`Deployments are logged to ${getDeployLogPath()}`);
+	console.log("");
+}
+
+/**
+ * Parses a date like `2026-10-01` or an age like `7d` (7 days ago). A bare
+ * date is a whole local day, so it means its start for `--since` and its end
+ * for `--until`.
+ */
+function parseWhen(value: string, flag: string, bound: "start" | "end"): Date {
+	const relative = value.match(/^(\d+)([mhd])$/);
+	if (relative) {
+		return new Date(Date.now() - Number(relative[1]) * RELATIVE_UNITS[relative[2]]);
+	}
+
+	const day = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (day) {
+		const [year, month, date] = day.slice(1).map(Number);
+		const start = new Date(year, month - 1, date);
+		if (start.getMonth() !== month - 1 || start.getDate() !== date) {
+			throw new Error(`${flag} expects a date or an age like 7d (got "${value}")`);
+		}
+		return bound === "start" ? start : new Date(new Date(year, month - 1, date + 1).getTime() - 1);
+	}
+
+	const time = Date.parse(value);
+	if (Number.isNaN(time)) {
+		throw new Error(`${flag} expects a date or an age like 7d (got "${value}")`);
+	}
+	return new Date(time);
+}
+
+/**
+ * Formats a duration in milliseconds as seconds, e.g. `4.8s`
+ */
+function formatDuration(ms: number): string {
+	return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Prints the entries as a table
+ */
+function printTable(entries: DeployLogEntry[]): void {
+	const rows = entries.map((entry) => ({
+		time: new Date(entry.timestamp).toLocaleString(),
+		worker: entry.env ? `${entry.worker} (${entry.env})` : entry.worker,
+		action: entry.action ?? "deploy",
+		outcome: entry.outcome,
+		version: entry.versionId?.split("-")[0] ?? "-",
+		duration: formatDuration(entry.durationMs),
+		changes: String(entry.changes.length),
+		reason: entry.reason ?? "",
+	}));
+
+	const headers = {
+		time: "Time",
+		worker: "Worker",
+		action: "Action",
+		outcome: "Outcome",
+		version: "Version",
+		duration: "Duration",
+		changes: "Files",
+		reason: "Reason",
+	};
+	const columns = Object.keys(headers) as Array<keyof typeof headers>;
+	const widths = Object.fromEntries(
+		columns.map((column) => [column, Math.max(headers[column].length, ...rows.map((row) => row[column].length))])
+	) as Record<keyof typeof headers, number>;
+
+	console.log(chalk.bold(columns.map((column) => headers[column].padEnd(widths[column])).join("  ").trimEnd()));
+	for (const row of rows) {
+		const cells = columns.map((column) => {
+			const cell = row[column].padEnd(widths[column]);
+			return column === "outcome" ? OUTCOME_COLORS[row.outcome](cell) : cell;
+		});
+		console.log(cells.join("  ").trimEnd());
+	}
+}
+
+/**
+ * Handles `wrongler history`
+ */
+export async function handleHistoryCommand(parsed: ParsedArgs): Promise<void> {
+	if (parsed.help) {
+		printHistoryUsage();
+		return;
+	}
+
+	let since: Date | undefined;
+	let until: Date | undefined;
+	let limit = 20;
+	let json = false;
+	try {
+		const { values } = parseCommandArgs({
+			args: parsed.remainingArgs,
+			options: {
+				since: { type: "string" },
+				until: { type: "string" },
+				limit: { type: "string" },
+				json: { type: "boolean" },
+			},
+			strict: true,
+			allowPositionals: false,
+		});
+
+		since = values.since !== undefined ? parseWhen(values.since, "--since", "start") : undefined;
+		until = values.until !== undefined ? parseWhen(values.until, "--until", "end") : undefined;
+		if (values.limit !== undefined) {
+			limit = Number(values.limit);
+			if (!Number.isInteger(limit) || limit < 0) {
+				throw new Error(`--limit expects a whole number (got "${values.limit}")`);
+			}
+		}
+		json = values.json ?? parsed.output === "json";
+	} catch (error) {
+		console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+		console.error("");
+		printHistoryUsage();
+		process.exit(1);
+	}
+
+	const entries = readDeployLog({ worker: parsed.name, env: parsed.env, since, until });
+	const shown = limit > 0 ? entries.slice(-limit) : entries;
+
+	if (json) {
+		console.log(JSON.stringify(shown, null, 2));
+		return;
+	}
+
+	if (shown.length === 0) {
+		console.log(chalk.gray("No YOLO deployments found."));
+		console.log("");
+		return;
+	}
+
+	printTable(shown);
+	if (shown.length < entries.length) {
+		console.log(chalk.gray(`\n${entries.length - shown.length} older deployments not shown - use --limit 0 to see all`));
+	}
+	console.log("");
+}
@@ -0,0 +1,214 @@
+/**
+ * `wrongler profile <subcommand>` - manages named API tokens, for deploying
+ * without `wrangler login` (CI, remote shells) or with a token per project
+ */
+
+import chalk from "chalk";
+import { isAccountId } from "../account";
+import type { ParsedArgs } from "../args";
+import { requireProject, resolveProject } from "../config";
+import {
+	getProfilesPath,
+	getProjectProfile,
+	listProfiles,
+	maskToken,
+	removeProfile,
+	saveProfile,
+	setProjectProfile,
+} from "../profiles";
+
+/**
+ * Prints usage for the profile subcommands
+ */
+function printProfileUsage(): void {
+	console.log("Usage: wrongler profile <command>");
+	console.log("");
+	console.log("Commands:");
+	console.log("  add <name>            Store an API token, read from CLOUDFLARE_API_TOKEN or stdin");
+	console.log("  list                  List profiles; * marks the one this project uses");
+	console.log("  use <name>            Deploy this project with a profile");
+	console.log("  clear                 Deploy this project with your wrangler login again");
+	console.log("  remove <name>         Delete a profile");
+	console.log("");
+	console.log("Options:");
+	console.log("  --account <id>        Account the token belongs to (add only)");
+	console.log("  --name <name>         Worker name (default: from the wrangler config)");
+	console.log("  -e, --env <name>      Environment the worker belongs to");
+	console.log("  -c, --config <path>   Wrangler config to read the worker from");
+	console.log("");
+	console.log("Examples:");
+	console.log("  echo \"$TOKEN\" | wrongler profile add ci --account 0123456789abcdef0123456789abcdef");
+	console.log("  wrongler deploy --yolo --profile ci");
+	console.log("");
+	console.log(`Profiles are stored in ${getProfilesPath()}`);
+	console.log("");
+}
+
+/**
+ * Prints an error and exits
+ */
+function fail(message: string): never {
+	console.error(`Error: ${message}`);
+	console.error("");
+	process.exit(1);
+}
+
+/**
+ * Runs a project lookup, exiting with its error if it fails
+ */
+function orFail<T>(lookup: () => T): T {
+	try {
+		return lookup();
+	} catch (error) {
+		fail(error instanceof Error ? error.message : String(error));
+	}
+}
+
+/**
+ * Reads everything piped to stdin
+ */
+async function readStdin(): Promise<string> {
+	let data = "";
+	for await (const chunk of process.stdin) {
+		data += chunk;
+	}
+	return data;
+}
+
+/**
+ * Handles `wrongler profile add <name>`
+ */
+async function handleAdd(parsed: ParsedArgs, name: string | undefined): Promise<void> {
+	if (!name) {
+		fail("Expected a profile name, e.g. `wrongler profile add ci`");
+	}
+	if (parsed.account && !isAccountId(parsed.account)) {
+		fail(`--account for a profile must be a 32-character account ID (got "${parsed.account}")`);
+	}
+
+	// Never from an argument, which would end up in the shell history
+	let token = process.env.CLOUDFLARE_API_TOKEN;
+	if (!token) {
+		if (process.stdin.isTTY) {
+			fail(
+				"Pipe the API token to this command or set CLOUDFLARE_API_TOKEN, e.g. `echo \"$TOKEN\" | wrongler profile add ci`"
+			);
+		}
+		token = await readStdin();
+	}
+
+	try {
+		saveProfile(name, token, parsed.account);
+	} catch (error) {
+		fail(error instanceof Error ? error.message : String(error));
+	}
+	console.log(chalk.green(`✓ Saved profile ${name} (token ${maskToken(token.trim())})`));
+	console.log(chalk.gray(`  Use it with --profile ${name}, WRONGLER_PROFILE=${name} or \`wrongler profile use ${name}\``));
+	console.log("");
+}
+
+/**
+ * Handles `wrongler profile list`
+ */
+function handleList(parsed: ParsedArgs): void {
+	const profiles = Object.entries(listProfiles());
+	if (profiles.length === 0) {
+		console.log(chalk.gray("No profiles yet - add one with `wrongler profile add <name>`."));
+		console.log("");
+		return;
+	}
+
+	const project = orFail(() => resolveProject(parsed));
+	const current = project && getProjectProfile(project.projectKey);
+	const width = Math.max("Name".length, ...profiles.map(([name]) => name.length));
+	console.log(chalk.bold(`  ${"Name".padEnd(width)}  Token  Account`));
+	for (const [name, profile] of profiles) {
+		const row = `${name.padEnd(width)}  ${maskToken(profile.apiToken).padEnd(5)}  ${profile.accountId ?? "-"}`;
+		console.log(name === current ? chalk.green(`* ${row}`) : `  ${row}`);
+	}
+	if (project && current) {
+		console.log(chalk.gray(`\n* the profile ${project.workerName} deploys with`));
+	}
+	console.log("");
+}
+
+/**
+ * Handles `wrongler profile use <name>` and `wrongler profile clear`
+ */
+function handleUse(parsed: ParsedArgs, name: string | undefined): void {
+	const { workerName, projectKey } = orFail(() => requireProject(parsed));
+	try {
+		setProjectProfile(projectKey, name);
+	} catch (error) {
+		fail(error instanceof Error ? error.message : String(error));
+	}
+
+	const credentials = name ? `profile ${name}` : "your wrangler login";
+	console.log(chalk.green(`✓ ${workerName} will deploy with ${credentials}`));
+	if (name && process.env.CLOUDFLARE_API_TOKEN) {
+		console.warn(chalk.yellow("⚠️  CLOUDFLARE_API_TOKEN is set in this shell and takes precedence over the project's profile."));
+	}
+	console.log("");
+}
+
+/**
+ * Handles `wrongler profile remove <name>`
+ */
+function handleRemove(name: string | undefined): void {
+	if (!name) {
+		fail("Expected a profile name, e.g. `wrongler profile remove ci`");
+	}
+	if (!removeProfile(name)) {
+		fail(`No profile named "${name}"`);
+	}
+	console.log(chalk.green(`✓ Removed profile ${name}`));
+	console.log("");
+}
+
+/**
+ * Dispatches `wrongler profile <subcommand>`
+ */
+export async function handleProfileCommand(parsed: ParsedArgs): Promise<void> {
+	const [subcommand, ...rest] = parsed.remainingArgs.filter((arg) => !arg.startsWith("-"));
+
+	if (parsed.help) {
+		printProfileUsage();
+		return;
+	}
+
+	switch (subcommand) {
+		case "add":
+			await handleAdd(parsed, rest[0]);
+			break;
+
+		case "list":
+			handleList(parsed);
+			break;
+
+		case "use":
+			if (!rest[0]) {
+				fail("Expected a profile name, e.g. `wrongler profile use ci`");
+			}
+			handleUse(parsed, rest[0]);
+			break;
+
+		case "clear":
+			handleUse(parsed, undefined);
+			break;
+
+		case "remove":
+			handleRemove(rest[0]);
+			break;
+
+		default:
+			if (subcommand && subcommand !== "help") {
+				console.error(`Error: Unknown profile command: ${subcommand}`);
+				console.error("");
+			}
+			printProfileUsage();
+			if (subcommand && subcommand !== "help") {
+				process.exit(1);
+			}
+			break;
+	}
+}
@@ -0,0 +1,127 @@
+/**
+ * `wrongler yolo <subcommand>` - commands that act on YOLO deployments
+ * outside of a running session
+ */
+
+import chalk from "chalk";
+import { getProjectAccountId, getYoloVersions } from "../cache";
+import { requireProject, type Project } from "../config";
+import { appendDeployLog, type DeployLogEntry } from "../deploy-log";
+import { logger } from "../logger";
+import { activateProfile } from "../profiles";
+import type { ParsedArgs } from "../args";
+import { rollbackVersions } from "../yolo/history";
+import { YoloOutputFormatter } from "../yolo/output-formatter";
+
+/**
+ * Prints usage for the yolo subcommands
+ */
+function printYoloUsage(): void {
+	console.log("Usage: wrongler yolo <command>");
+	console.log("");
+	console.log("Commands:");
+	console.log("  rollback [n]          Roll back to the previous (or n-th previous) YOLO version");
+	console.log("");
+	console.log("Options:");
+	console.log("  --name <name>         Worker name (default: from the wrangler config)");
+	console.log("  -e, --env <name>      Environment the worker belongs to");
+	console.log("  -c, --config <path>   Wrangler config to read the worker from");
+	console.log("");
+}
+
+/**
+ * Handles `wrongler yolo rollback [n]`
+ */
+async function handleRollback(parsed: ParsedArgs, stepsArg: string | undefined): Promise<void> {
+	const projectRoot = process.cwd();
+
+	const steps = stepsArg === undefined ? 1 : Number(stepsArg);
+	if (!Number.isInteger(steps) || steps < 1) {
+		console.error(`Error: Expected a number of versions to roll back, got "${stepsArg}"`);
+		console.error("");
+		process.exit(1);
+	}
+
+	let project: Project;
+	try {
+		project = requireProject({ projectRoot, name: parsed.name, env: parsed.env, config: parsed.config });
+		activateProfile(parsed.profile, project.projectKey);
+	} catch (error) {
+		console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+		console.error("");
+		process.exit(1);
+	}
+
+	const { workerName, projectKey, configAccountId } = project;
+	const target = {
+		projectKey,
+		name: workerName,
+		env: parsed.env,
+		// The version's own account wins over the config and cache inside rollbackVersions
+		accountId: process.env.CLOUDFLARE_ACCOUNT_ID ?? configAccountId ?? getProjectAccountId(projectKey),
+		projectRoot,
+		verbose: parsed.verbose,
+	};
+	const versions = getYoloVersions(target);
+	console.log(chalk.cyan(`↺ Rolling back ${workerName} by ${steps} version${steps === 1 ? "" : "s"}...`));
+	if (versions.length > 0) {
+		console.log(chalk.dim(`  Current: ${versions[versions.length - 1].versionId}\n`));
+	}
+
+	const startTime = Date.now();
+	const logRollback = (entry: Pick<DeployLogEntry, "outcome" | "reason" | "accountId" | "versionId">) => {
+		const error = appendDeployLog({
+			timestamp: new Date().toISOString(),
+			worker: workerName,
+			env: parsed.env,
+			mode: "deploy",
+			action: "rollback",
+			durationMs: Date.now() - startTime,
+			changes: [],
+			...entry,
+		});
+		if (error) {
+			logger.debug("Could not write the deployment log:", error);
+		}
+	};
+
+	const formatter = new YoloOutputFormatter(parsed.verbose);
+	try {
+		const version = await rollbackVersions(target, steps);
+		formatter.formatRollback(version.versionId);
+		logRollback({
+			outcome: "success",
+			accountId: version.accountId ?? target.accountId,
+			versionId: version.versionId,
+		});
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		formatter.formatRollbackUnavailable(message, error instanceof Error ? error : undefined);
+		logRollback({ outcome: "failed", reason: message, accountId: target.accountId });
+		process.exit(1);
+	}
+}
+
+/**
+ * Dispatches `wrongler yolo <subcommand>`
+ */
+export async function handleYoloCommand(parsed: ParsedArgs): Promise<void> {
+	const [subcommand, ...rest] = parsed.remainingArgs.filter((arg) => !arg.startsWith("-"));
+
+	switch (subcommand) {
+		case "rollback":
+			await handleRollback(parsed, rest[0]);
+			break;
+
+		default:
+			if (subcommand && subcommand !== "help") {
+				console.error(`Error: Unknown yolo command: ${subcommand}`);
+				console.error("");
+			}
+			printYoloUsage();
+			if (subcommand && subcommand !== "help") {
+				process.exit(1);
+			}
+			break;
+	}
+}
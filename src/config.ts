@@ -1,20 +1,51 @@
 /**
- * Configuration file parser for wrangler.toml
+ * Configuration file parser for wrangler.toml, wrangler.json and wrangler.jsonc
  */
 
 import { readFileSync, existsSync } from "node:fs";
 import path from "node:path";
+import { isDeepStrictEqual } from "node:util";
 import * as TOML from "toml";
+import { getProjectKey } from "./cache";
+import { parseJsonc } from "./utils/jsonc";
 import type { Config } from "./types";
 
+export type ConfigFormat = "toml" | "json" | "jsonc";
+
 /**
- * Finds the wrangler.toml config file in the project
+ * A worker that commands outside YOLO mode (account, profile, yolo rollback)
+ * act on
+ */
+export interface Project {
+	workerName: string;
+	/** Identifies the project in wrongler's cache, see getProjectKey */
+	projectKey: string;
+	configPath: string;
+	/** account_id from the wrangler config, which wins over any cached choice */
+	configAccountId?: string;
+}
+
+export interface ProjectOptions {
+	/** Defaults to the current directory */
+	projectRoot?: string;
+	/** --name, which wins over the config */
+	name?: string;
+	/** --env */
+	env?: string;
+	/** --config, a config file other than the one wrangler would find */
+	config?: string;
+}
+
+/**
+ * Finds the wrangler config file in the project
  */
 export function findConfigPath(startDir?: string): string | null {
 	const searchDir = startDir || process.cwd();
+	// Same precedence as wrangler itself, so we read the file it will deploy with
 	const possiblePaths = [
-		path.join(searchDir, "wrangler.toml"),
+		path.join(searchDir, "wrangler.json"),
 		path.join(searchDir, "wrangler.jsonc"),
+		path.join(searchDir, "wrangler.toml"),
 		path.join(searchDir, ".wrangler", "config.toml"),
 	];
 
@@ -28,12 +59,51 @@ export function findConfigPath(startDir?: string): string | null {
 }
 
 /**
- * Parses a wrangler.toml config file
+ * Detects the config file format from its extension
+ */
+export function getConfigFormat(configPath: string): ConfigFormat {
+	switch (path.extname(configPath).toLowerCase()) {
+		case ".json":
+			return "json";
+		case ".jsonc":
+			return "jsonc";
+		default:
+			return "toml";
+	}
+}
+
+/**
+ * Parses config file content according to its format
+ */
+function parseContent(content: string, format: ConfigFormat): Record<string, unknown> {
+	if (format === "toml") {
+		try {
+			return TOML.parse(content) as Record<string, unknown>;
+		} catch (error) {
+			// The toml parser reports the position on the error object, not in the message
+			const { line, column } = error as { line?: number; column?: number };
+			if (error instanceof Error && line !== undefined && column !== undefined) {
+				throw new Error(`${error.message} (line ${line}, column ${column})`);
+			}
+			throw error;
+		}
+	}
+
+	// Like wrangler, accept comments and trailing commas in wrangler.json too
+	const parsed = parseJsonc(content);
+	if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+		throw new Error("Expected the top-level value to be an object");
+	}
+	return parsed as Record<string, unknown>;
+}
+
+/**
+ * Parses a wrangler config file (TOML, JSON or JSONC)
  */
 export function parseConfig(configPath: string): Config {
 	try {
 		const content = readFileSync(configPath, "utf-8");
-		const parsed = TOML.parse(content) as Record<string, unknown>;
+		const parsed = parseContent(content, getConfigFormat(configPath));
 
 		return {
 			name: parsed.name as string | undefined,
@@ -55,9 +125,114 @@ export function parseConfig(configPath: string): Config {
 }
 
 /**
- * Loads the wrangler config from the current directory
+ * Keys that are only ever read from the active environment. If an `[env.X]`
+ * block does not set them, they are left unset rather than falling back to
+ * the top level - the same as wrangler does for bindings, vars and defines.
+ */
+const NON_INHERITABLE_KEYS = [
+	"define",
+	"vars",
+	"durable_objects",
+	"workflows",
+	"migrations",
+	"kv_namespaces",
+	"cloudchamber",
+	"containers",
+	"send_email",
+	"queues",
+	"r2_buckets",
+	"d1_databases",
+	"vectorize",
+	"hyperdrive",
+	"services",
+	"analytics_engine_datasets",
+	"dispatch_namespaces",
+	"mtls_certificates",
+	"tail_consumers",
+	"unsafe",
+	"browser",
+	"ai",
+	"images",
+	"version_metadata",
+	"pipelines",
+	"secrets_store_secrets",
+	"unsafe_hello_world",
+	"ratelimits",
+	"worker_loaders",
+	"vpc_services",
+] as const;
+
+/**
+ * Keys that only make sense at the top level and are never taken from an environment
+ */
+const TOP_LEVEL_ONLY_KEYS = ["env", "legacy_env", "site", "configPath"] as const;
+
+/**
+ * Checks whether the config declares an `[env.<name>]` block
+ */
+export function hasEnvironment(config: Config, envName: string): boolean {
+	return config.env !== undefined && Object.prototype.hasOwnProperty.call(config.env, envName);
+}
+
+/**
+ * Resolves the effective config for an environment by merging `[env.<name>]`
+ * over the top level using wrangler's inheritance rules:
+ * - inheritable keys (main, compatibility_date, routes, ...) fall back to the top level
+ * - non-inheritable keys (vars, define, bindings) come only from the environment
+ * - `name` defaults to `<top-level name>-<env>` unless service environments are used
+ *
+ * Without an environment name the top-level config is returned unchanged.
+ */
+export function resolveEnvironment(config: Config, envName?: string): Config {
+	if (!envName) {
+		return config;
+	}
+
+	const envConfig = config.env?.[envName] ?? {};
+	const resolved: Config = { ...config };
+
+	for (const key of NON_INHERITABLE_KEYS) {
+		delete resolved[key];
+	}
+
+	for (const [key, value] of Object.entries(envConfig)) {
+		if (!(TOP_LEVEL_ONLY_KEYS as readonly string[]).includes(key)) {
+			resolved[key] = value;
+		}
+	}
+
+	// With legacy environments (wrangler's default) each environment is a separate worker
+	if (typeof envConfig.name !== "string" && config.name && config.legacy_env !== false) {
+		resolved.name = `${config.name}-${envName}`;
+	}
+
+	return resolved;
+}
+
+/**
+ * Lists the top-level keys whose values differ between two resolved configs
+ */
+export function getChangedConfigKeys(previous: Config, next: Config): string[] {
+	const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+	return [...keys]
+		.filter((key) => key !== "configPath" && key !== "env")
+		.filter((key) => !isDeepStrictEqual(previous[key], next[key]))
+		.sort();
+}
+
+/**
+ * Loads the wrangler config from the current directory, or from `configFile`
+ * (--config) if given, resolved against the project root
  */
-export function loadConfig(projectRoot?: string): Config | null {
+export function loadConfig(projectRoot?: string, configFile?: string): Config | null {
+	if (configFile) {
+		const configPath = path.resolve(projectRoot || process.cwd(), configFile);
+		if (!existsSync(configPath)) {
+			throw new Error(`Config file not found: ${configFile}`);
+		}
+		return parseConfig(configPath);
+	}
+
 	const configPath = findConfigPath(projectRoot);
 	if (!configPath) {
 		return null;
@@ -65,3 +240,44 @@ export function loadConfig(projectRoot?: string): Config | null {
 
 	return parseConfig(configPath);
 }
+
+/**
+ * Works out which worker a command applies to, from --name, --env, --config
+ * and the wrangler config in the project root. Returns undefined if there is
+ * no worker name to go by.
+ */
+export function resolveProject(options: ProjectOptions): Project | undefined {
+	const projectRoot = options.projectRoot ?? process.cwd();
+	let workerName = options.name;
+	let configPath = path.resolve(projectRoot, options.config ?? "wrangler.toml");
+	let configAccountId: string | undefined;
+	try {
+		const rawConfig = loadConfig(projectRoot, options.config);
+		const config = rawConfig ? resolveEnvironment(rawConfig, options.env) : null;
+		workerName ??= config?.name;
+		configAccountId = config?.account_id;
+		configPath = rawConfig?.configPath ?? configPath;
+	} catch (error) {
+		// A broken config is fine as long as we know the worker name
+		if (!workerName) {
+			throw error;
+		}
+	}
+
+	if (!workerName) {
+		return undefined;
+	}
+	return { workerName, projectKey: getProjectKey(configPath, workerName), configPath, configAccountId };
+}
+
+/**
+ * Like resolveProject, for commands that can't do without a worker. Throws if
+ * there is none.
+ */
+export function requireProject(options: ProjectOptions): Project {
+	const project = resolveProject(options);
+	if (!project) {
+		throw new Error("Worker name not specified. Specify a name with --name or run this in a directory with a wrangler config.");
+	}
+	return project;
+}
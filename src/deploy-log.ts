@@ -0,0 +1,106 @@
+/**
+ * Deployment log - an append-only record of every YOLO deployment, promotion
+ * and rollback, kept in
+ * ~/.wrongler/history.jsonl so it outlives the session
+ */
+
+import { appendFileSync, existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { ensureCacheDir, getCacheDir } from "./cache";
+import type { FileChange } from "./types";
+import type { DeployMode } from "./yolo/deploy";
+
+/**
+ * - success: the version went live (or was uploaded, in preview mode)
+ * - failed: wrangler failed, or the smoke tests failed without a rollback
+ * - blocked: a pre-deploy check failed, nothing was uploaded
+ * - rolled-back: the version went live but was reverted
+ */
+export type DeployOutcome = "success" | "failed" | "blocked" | "rolled-back";
+
+/**
+ * What an entry records. Promotions and rollbacks only move traffic between
+ * versions that were already uploaded.
+ */
+export type DeployAction = "deploy" | "promote" | "rollback";
+
+export interface DeployLogEntry {
+	/** When the deployment finished, as an ISO timestamp */
+	timestamp: string;
+	worker: string;
+	env?: string;
+	accountId?: string;
+	mode: DeployMode;
+	/** Missing on entries written before promotions and rollbacks were logged, which are all deployments */
+	action?: DeployAction;
+	outcome: DeployOutcome;
+	/** Why the deployment, promotion or rollback didn't succeed */
+	reason?: string;
+	/** The version deployed, promoted or rolled back to */
+	versionId?: string;
+	workerUrl?: string;
+	previewUrl?: string;
+	durationMs: number;
+	changes: FileChange[];
+}
+
+export interface DeployLogFilter {
+	worker?: string;
+	env?: string;
+	since?: Date;
+	until?: Date;
+}
+
+/**
+ * Gets the path to the deployment log
+ */
+export function getDeployLogPath(): string {
+	return path.join(getCacheDir(), "history.jsonl");
+}
+
+/**
+ * Appends an entry to the deployment log. Failing to write the log never
+ * interrupts a YOLO session, so errors are returned instead of thrown.
+ */
+export function appendDeployLog(entry: DeployLogEntry): Error | undefined {
+	try {
+		ensureCacheDir();
+		appendFileSync(getDeployLogPath(), `${JSON.stringify(entry)}\n`, "utf-8");
+		return undefined;
+	} catch (error) {
+		return error instanceof Error ? error : new Error(String(error));
+	}
+}
+
+/**
+ * Reads the deployment log, oldest first. Lines that can't be parsed, e.g.
+ * from a write that was cut off, are skipped.
+ */
+export function readDeployLog(filter: DeployLogFilter = {}): DeployLogEntry[] {
+	const logPath = getDeployLogPath();
+	if (!existsSync(logPath)) {
+		return [];
+	}
+
+	const entries: DeployLogEntry[] = [];
+	for (const line of readFileSync(logPath, "utf-8").split("\n")) {
+		if (!line.trim()) {
+			continue;
+		}
+		try {
+			entries.push(JSON.parse(line) as DeployLogEntry);
+		} catch {
+			// Skip the damaged line
+		}
+	}
+
+	return entries.filter((entry) => {
+		const time = Date.parse(entry.timestamp);
+		return (
+			(filter.worker === undefined || entry.worker === filter.worker) &&
+			(filter.env === undefined || entry.env === filter.env) &&
+			(filter.since === undefined || time >= filter.since.getTime()) &&
+			(filter.until === undefined || time <= filter.until.getTime())
+		);
+	});
+}
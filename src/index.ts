@@ -5,11 +5,107 @@
  * automatic redeployment on file changes.
  */
 
-export { YoloOutputFormatter } from "./yolo/output-formatter";
+export { YoloOutputFormatter, combineFormatters, type YoloFormatter, type DeploymentStats } from "./yolo/output-formatter";
+export { EventFormatter, createJsonFormatter } from "./yolo/event-formatter";
+export type { YoloEvent, YoloEventType, SessionInfo, ShortcutAction } from "./yolo/events";
 export { startYoloMode } from "./yolo/watch";
-export type { DeployParams } from "./yolo/deploy";
-export { loadConfig, parseConfig, findConfigPath } from "./config";
-export { parseArgs } from "./args";
+export { createYoloSession, type YoloController, type YoloSessionOptions, type SessionState } from "./yolo/session";
+export {
+	startControlServer,
+	DEFAULT_CONTROL_PORT,
+	type ControlServer,
+	type ControlServerOptions,
+} from "./yolo/control-server";
+export {
+	buildDeployArgs,
+	partitionPassthroughArgs,
+	getDroppedUploadArgs,
+	isUploadMode,
+	DeployAbortedError,
+	DeployError,
+	type DeployParams,
+	type DeployOptions,
+	type DeployMode,
+} from "./yolo/deploy";
+export { buildDeployParams, configToDeployFields, type DeployTarget } from "./yolo/params";
+export { loadConfig, parseConfig, findConfigPath, getConfigFormat, resolveEnvironment, hasEnvironment, getChangedConfigKeys, type ConfigFormat } from "./config";
+export { parseArgs, formatYoloHelp, FLAG_SPECS, type ParsedArgs, type FlagSpec } from "./args";
 export type { Config, Entry, AssetsOptions, LegacyAssetPaths, DeploymentResult } from "./types";
-export { getCachedAccountId, setCachedAccountId, clearCache } from "./cache";
-export { listAccounts, selectAccount, runLogin, type Account } from "./account";
+export {
+	getCachedAccountId,
+	setCachedAccountId,
+	getProjectAccountId,
+	setProjectAccountId,
+	getProjectAccount,
+	getProjectKey,
+	adoptLegacyAccountId,
+	forgetProjectAccount,
+	forgetAllAccounts,
+	getLegacyAccountId,
+	clearCache,
+	getYoloVersions,
+	getLastYoloVersion,
+	type CachedAccount,
+	type HistoryTarget,
+	type YoloVersion,
+} from "./cache";
+export {
+	listAccounts,
+	selectAccount,
+	findAccount,
+	isAccountId,
+	isInteractive,
+	runLogin,
+	type Account,
+	type PromptOptions,
+} from "./account";
+export { runWhoami, parseWhoamiOutput, parseWhoamiJson, type WhoamiResult } from "./whoami";
+export {
+	resolveWrangler,
+	getWranglerVersion,
+	spawnWrangler,
+	WRANGLER_PATH_ENV,
+	type WranglerBinary,
+	type WranglerSource,
+} from "./wrangler-runner";
+export {
+	activateProfile,
+	getProfile,
+	listProfiles,
+	saveProfile,
+	removeProfile,
+	getProjectProfile,
+	setProjectProfile,
+	getProfilesPath,
+	type CredentialProfile,
+} from "./profiles";
+export {
+	loadSettings,
+	type WronglerSettings,
+	type CheckSettings,
+	type SmokeSettings,
+	type SmokeCheckSettings,
+	type RolloutSettings,
+} from "./settings";
+export { runChecks, toPreDeployChecks, type PreDeployCheck, type CheckFailure } from "./yolo/checks";
+export {
+	runSmokeTests,
+	toSmokeChecks,
+	toSmokeOptions,
+	toSmokeBaseUrl,
+	type SmokeCheck,
+	type SmokeResult,
+	type SmokeOptions,
+} from "./yolo/smoke";
+export { rollback, type RollbackTarget } from "./yolo/rollback";
+export {
+	appendDeployLog,
+	readDeployLog,
+	getDeployLogPath,
+	type DeployLogEntry,
+	type DeployLogFilter,
+	type DeployOutcome,
+} from "./deploy-log";
+export { promote, deployVersions, type VersionSplit } from "./yolo/promote";
+export { runRollout, toRolloutOptions, type RolloutOptions, type RolloutHooks, type RolloutOutcome } from "./yolo/rollout";
+export { recordVersion, getCurrentVersion, rollbackVersions, toHistoryTarget } from "./yolo/history";
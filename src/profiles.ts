@@ -0,0 +1,181 @@
+/**
+ * Credential profiles - named Cloudflare API tokens stored under ~/.wrongler,
+ * so each project can deploy with its own token without `wrangler login`
+ */
+
+import { readFileSync, writeFileSync, existsSync, renameSync, rmSync } from "node:fs";
+import path from "node:path";
+import { ensureCacheDir, getCacheDir } from "./cache";
+
+export interface CredentialProfile {
+	apiToken: string;
+	/** Account the token belongs to, used when nothing else picks one */
+	accountId?: string;
+	createdAt: string;
+}
+
+const PROFILES_VERSION = 1;
+
+interface ProfilesData {
+	version: number;
+	profiles: Record<string, CredentialProfile>;
+	/** Profile used per project, keyed like the account cache (see getProjectKey) */
+	projects: Record<string, string>;
+	[key: string]: unknown;
+}
+
+/**
+ * Profile names end up in commands and messages, so keep them simple
+ */
+const PROFILE_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Gets the path to the profiles file
+ */
+export function getProfilesPath(): string {
+	return path.join(getCacheDir(), "profiles.json");
+}
+
+/**
+ * Reads the profiles file
+ */
+function readProfiles(): ProfilesData {
+	const profilesPath = getProfilesPath();
+	const empty: ProfilesData = { version: PROFILES_VERSION, profiles: {}, projects: {} };
+	if (!existsSync(profilesPath)) {
+		return empty;
+	}
+
+	try {
+		const data = JSON.parse(readFileSync(profilesPath, "utf-8")) as Partial<ProfilesData>;
+		return {
+			...data,
+			version: data.version ?? PROFILES_VERSION,
+			profiles: data.profiles ?? {},
+			projects: data.projects ?? {},
+		};
+	} catch {
+		return empty;
+	}
+}
+
+/**
+ * Writes the profiles file atomically, readable only by the current user
+ */
+function writeProfiles(data: ProfilesData): void {
+	ensureCacheDir();
+	const profilesPath = getProfilesPath();
+	const tempPath = `${profilesPath}.${process.pid}.tmp`;
+	try {
+		writeFileSync(tempPath, JSON.stringify(data, null, 2), { encoding: "utf-8", mode: 0o600 });
+		renameSync(tempPath, profilesPath);
+	} catch (error) {
+		rmSync(tempPath, { force: true });
+		throw error;
+	}
+}
+
+/**
+ * Lists all profiles by name
+ */
+export function listProfiles(): Record<string, CredentialProfile> {
+	return readProfiles().profiles;
+}
+
+/**
+ * Gets a profile by name
+ */
+export function getProfile(name: string): CredentialProfile | undefined {
+	return readProfiles().profiles[name];
+}
+
+/**
+ * Adds or replaces a profile
+ */
+export function saveProfile(name: string, apiToken: string, accountId?: string): void {
+	if (!PROFILE_NAME.test(name)) {
+		throw new Error(`Invalid profile name "${name}" - use letters, digits, ".", "_" and "-"`);
+	}
+	if (!apiToken.trim()) {
+		throw new Error("The API token is empty");
+	}
+
+	const data = readProfiles();
+	data.profiles[name] = { apiToken: apiToken.trim(), accountId, createdAt: new Date().toISOString() };
+	writeProfiles(data);
+}
+
+/**
+ * Removes a profile and any project's use of it. Returns false if there was none.
+ */
+export function removeProfile(name: string): boolean {
+	const data = readProfiles();
+	if (!data.profiles[name]) {
+		return false;
+	}
+
+	delete data.profiles[name];
+	for (const [projectKey, profileName] of Object.entries(data.projects)) {
+		if (profileName === name) {
+			delete data.projects[projectKey];
+		}
+	}
+	writeProfiles(data);
+	return true;
+}
+
+/**
+ * Gets the name of the profile a project uses
+ */
+export function getProjectProfile(projectKey: string): string | undefined {
+	return readProfiles().projects[projectKey];
+}
+
+/**
+ * Sets the profile a project uses, or clears it with `undefined`
+ */
+export function setProjectProfile(projectKey: string, name: string | undefined): void {
+	const data = readProfiles();
+	if (name === undefined) {
+		delete data.projects[projectKey];
+	} else if (!data.profiles[name]) {
+		throw new Error(`No profile named "${name}" - add it with \`wrongler profile add ${name}\``);
+	} else {
+		data.projects[projectKey] = name;
+	}
+	writeProfiles(data);
+}
+
+/**
+ * Shows only the end of a token, e.g. `…a1b2`
+ */
+export function maskToken(token: string): string {
+	return `…${token.slice(-4)}`;
+}
+
+/**
+ * Picks the profile for this run and exposes its token (and account) to
+ * wrangler through the environment, which every wrangler process inherits.
+ *
+ * An explicit name (--profile or WRONGLER_PROFILE) always applies. A
+ * project's profile only applies if no CLOUDFLARE_API_TOKEN is set already.
+ * Returns the name of the profile that was applied, if any.
+ */
+export function activateProfile(explicitName: string | undefined, projectKey?: string): string | undefined {
+	const explicit = explicitName ?? process.env.WRONGLER_PROFILE;
+	const name = explicit ?? (projectKey && !process.env.CLOUDFLARE_API_TOKEN ? getProjectProfile(projectKey) : undefined);
+	if (!name) {
+		return undefined;
+	}
+
+	const profile = getProfile(name);
+	if (!profile) {
+		throw new Error(`No profile named "${name}" - run \`wrongler profile list\` to see your profiles`);
+	}
+
+	process.env.CLOUDFLARE_API_TOKEN = profile.apiToken;
+	if (profile.accountId && (explicit || !process.env.CLOUDFLARE_ACCOUNT_ID)) {
+		process.env.CLOUDFLARE_ACCOUNT_ID = profile.accountId;
+	}
+	return name;
+}
@@ -0,0 +1,78 @@
+/**
+ * Project settings for wrongler itself, read from .wronglerrc.json
+ *
+ * These are options that don't belong in the wrangler config (wrangler would
+ * warn about unknown keys) and are too structured for command line flags.
+ */
+
+import { readFileSync, existsSync } from "node:fs";
+import path from "node:path";
+import { parseJsonc } from "./utils/jsonc";
+
+export interface CheckSettings {
+	/** Label shown in the output; defaults to the command */
+	name?: string;
+	command: string;
+}
+
+export interface SmokeCheckSettings {
+	path: string;
+	/** Expected HTTP status, 200 by default */
+	status?: number;
+	/** Substring the response body must contain */
+	contains?: string;
+	maxLatencyMs?: number;
+}
+
+export interface SmokeSettings {
+	/** Paths to request after each deploy; a plain string expects status 200 */
+	checks?: Array<string | SmokeCheckSettings>;
+	/** Overrides the URL the paths are resolved against, e.g. a local stand-in */
+	baseUrl?: string;
+	/** Test the worker URL (default) or the version preview URL */
+	target?: "worker" | "preview";
+	/** Roll back to the last good version when a check fails (default true) */
+	rollback?: boolean;
+}
+
+export interface RolloutSettings {
+	/** Percentages of traffic the new version gets, e.g. [10, 50, 100] */
+	steps?: number[];
+	/** Seconds to wait between steps */
+	intervalSeconds?: number;
+}
+
+export interface WronglerSettings {
+	/** Commands that must pass before each YOLO deploy, run in order */
+	checks?: Array<string | CheckSettings>;
+	/** Requests made against the worker after each YOLO deploy */
+	smoke?: SmokeSettings;
+	/** Traffic steps for `--yolo=gradual` */
+	rollout?: RolloutSettings;
+	[key: string]: unknown;
+}
+
+export const SETTINGS_FILE_NAME = ".wronglerrc.json";
+
+/**
+ * Loads .wronglerrc.json from the project root. Comments and trailing commas
+ * are allowed. A missing file yields empty settings.
+ */
+export function loadSettings(projectRoot?: string): WronglerSettings {
+	const settingsPath = path.join(projectRoot || process.cwd(), SETTINGS_FILE_NAME);
+	if (!existsSync(settingsPath)) {
+		return {};
+	}
+
+	try {
+		const parsed = parseJsonc(readFileSync(settingsPath, "utf-8"));
+		if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+			throw new Error("Expected the top-level value to be an object");
+		}
+		return parsed as WronglerSettings;
+	} catch (error) {
+		throw new Error(
+			`Failed to parse ${settingsPath}: ${error instanceof Error ? error.message : String(error)}`
+		);
+	}
+}
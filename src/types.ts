@@ -17,6 +17,8 @@ export interface Config {
 	compatibility_flags?: string[];
 	vars?: Record<string, string>;
 	define?: Record<string, string>;
+	legacy_env?: boolean;
+	env?: Record<string, Record<string, unknown>>;
 	[key: string]: unknown;
 }
 
@@ -40,9 +42,18 @@ export interface LegacyAssetPaths {
 	excludePatterns?: string[];
 }
 
+export interface FileChange {
+	path: string;
+	type: "change" | "add" | "unlink";
+}
+
 export interface DeploymentResult {
 	versionId?: string;
 	targets?: string[];
+	/** URL of the version itself, printed by `wrangler versions upload` */
+	previewUrl?: string;
 	workerName?: string;
+	/** The file changes this deployment contains */
+	changes?: FileChange[];
 	[key: string]: unknown;
 }
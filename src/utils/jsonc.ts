@@ -0,0 +1,183 @@
+/**
+ * JSONC parser - JSON with comments and trailing commas, as accepted by wrangler.jsonc
+ */
+
+export class JsoncParseError extends Error {
+	readonly line: number;
+	readonly column: number;
+
+	constructor(message: string, line: number, column: number) {
+		super(`${message} (line ${line}, column ${column})`);
+		this.name = "JsoncParseError";
+		this.line = line;
+		this.column = column;
+	}
+}
+
+/**
+ * Parses a JSONC document. Line and block comments are ignored and trailing
+ * commas are allowed in objects and arrays.
+ */
+export function parseJsonc(content: string): unknown {
+	let pos = 0;
+
+	const fail = (message: string, at = pos): never => {
+		const before = content.slice(0, at).split("\n");
+		throw new JsoncParseError(message, before.length, before[before.length - 1].length + 1);
+	};
+
+	const describe = (at: number): string =>
+		at >= content.length ? "end of input" : `'${content[at]}'`;
+
+	// Skips whitespace and comments
+	const skip = () => {
+		while (pos < content.length) {
+			const char = content[pos];
+			if (char === " " || char === "\t" || char === "\n" || char === "\r" || char === "\uFEFF") {
+				pos++;
+			} else if (content.startsWith("//", pos)) {
+				const end = content.indexOf("\n", pos);
+				pos = end === -1 ? content.length : end;
+			} else if (content.startsWith("/*", pos)) {
+				const end = content.indexOf("*/", pos + 2);
+				if (end === -1) {
+					fail("Unterminated block comment");
+				}
+				pos = end + 2;
+			} else {
+				break;
+			}
+		}
+	};
+
+	const expect = (char: string) => {
+		if (content[pos] !== char) {
+			fail(`Expected '${char}' but found ${describe(pos)}`);
+		}
+		pos++;
+	};
+
+	const parseString = (): string => {
+		const start = pos;
+		expect('"');
+		let result = "";
+		while (pos < content.length) {
+			const char = content[pos];
+			if (char === '"') {
+				pos++;
+				return result;
+			}
+			if (char === "\n") {
+				break;
+			}
+			if (char === "\\") {
+				const escape = content[pos + 1];
+				const simple: Record<string, string> = {
+					'"': '"',
+					"\\": "\\",
+					"/": "/",
+					b: "\b",
+					f: "\f",
+					n: "\n",
+					r: "\r",
+					t: "\t",
+				};
+				if (escape in simple) {
+					result += simple[escape];
+					pos += 2;
+				} else if (escape === "u" && /^[0-9a-fA-F]{4}$/.test(content.slice(pos + 2, pos + 6))) {
+					result += String.fromCharCode(parseInt(content.slice(pos + 2, pos + 6), 16));
+					pos += 6;
+				} else {
+					fail("Invalid escape sequence in string", pos);
+				}
+				continue;
+			}
+			result += char;
+			pos++;
+		}
+		return fail("Unterminated string", start);
+	};
+
+	const parseNumber = (): number => {
+		const match = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(content.slice(pos));
+		if (!match) {
+			return fail(`Unexpected ${describe(pos)}`);
+		}
+		pos += match[0].length;
+		return Number(match[0]);
+	};
+
+	const parseValue = (): unknown => {
+		skip();
+		const char = content[pos];
+
+		if (char === "{") {
+			pos++;
+			const result: Record<string, unknown> = {};
+			skip();
+			while (content[pos] !== "}") {
+				if (content[pos] !== '"') {
+					fail(`Expected property name but found ${describe(pos)}`);
+				}
+				const key = parseString();
+				skip();
+				expect(":");
+				// Like JSON.parse, "__proto__" becomes a key rather than the prototype
+				Object.defineProperty(result, key, {
+					value: parseValue(),
+					enumerable: true,
+					writable: true,
+					configurable: true,
+				});
+				skip();
+				if (content[pos] === ",") {
+					pos++;
+					skip();
+				} else if (content[pos] !== "}") {
+					fail(`Expected ',' or '}' but found ${describe(pos)}`);
+				}
+			}
+			pos++;
+			return result;
+		}
+
+		if (char === "[") {
+			pos++;
+			const result: unknown[] = [];
+			skip();
+			while (content[pos] !== "]") {
+				result.push(parseValue());
+				skip();
+				if (content[pos] === ",") {
+					pos++;
+					skip();
+				} else if (content[pos] !== "]") {
+					fail(`Expected ',' or ']' but found ${describe(pos)}`);
+				}
+			}
+			pos++;
+			return result;
+		}
+
+		if (char === '"') {
+			return parseString();
+		}
+
+		for (const [literal, value] of [["true", true], ["false", false], ["null", null]] as const) {
+			if (content.startsWith(literal, pos)) {
+				pos += literal.length;
+				return value;
+			}
+		}
+
+		return parseNumber();
+	};
+
+	const value = parseValue();
+	skip();
+	if (pos < content.length) {
+		fail(`Unexpected ${describe(pos)} after end of document`);
+	}
+	return value;
+}
@@ -0,0 +1,27 @@
+/**
+ * Workers URL helpers
+ */
+
+/**
+ * Constructs a version-specific preview URL from the main worker URL and version ID
+ */
+export function constructVersionUrl(mainUrl: string, versionId: string): string | null {
+	try {
+		const url = new URL(mainUrl);
+		const hostname = url.hostname;
+
+		// Format: worker-name.account.workers.dev -> shortId-worker-name.account.workers.dev
+		const parts = hostname.split('.');
+		if (parts.length >= 3 && parts[parts.length - 2] === 'workers') {
+			// Get first segment of version ID (before first dash)
+			const shortId = versionId.split('-')[0];
+			const workerName = parts[0];
+			const accountOrDomain = parts.slice(1).join('.');
+			return `https://${shortId}-${workerName}.${accountOrDomain}${url.pathname}`;
+		}
+
+		return null;
+	} catch {
+		return null;
+	}
+}
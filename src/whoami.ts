@@ -0,0 +1,214 @@
+/**
+ * `wrangler whoami` - runs it and makes sense of its output across wrangler
+ * versions. Uses `whoami --json` where wrangler has it (4.65.0 and later) and
+ * falls back to scraping the text output otherwise.
+ *
+ * Sample outputs live in tests/fixtures/wrangler-whoami.
+ */
+
+import type { ChildProcess } from "node:child_process";
+import type { Account } from "./account";
+import { spawnWrangler } from "./wrangler-runner";
+
+export interface WhoamiResult {
+	loggedIn: boolean;
+	/** e.g. "OAuth Token", "User API Token", "Account API Token" */
+	authType?: string;
+	email?: string;
+	accounts: Account[];
+	/** OAuth scopes as "scope:access", e.g. "workers:write" (OAuth logins only) */
+	tokenPermissions?: string[];
+}
+
+/**
+ * Set once the installed wrangler turns out not to know `whoami --json`
+ */
+let jsonUnsupported = false;
+
+const ACCOUNT_ID = /^[0-9a-f]{32}$/i;
+
+/**
+ * What wrangler prints instead of a redacted value (non-interactive runs
+ * of some 4.x releases)
+ */
+const REDACTED = "(redacted)";
+
+/**
+ * Removes ANSI colour codes
+ */
+function stripAnsi(text: string): string {
+	return text.replace(/\x1b\[[0-9;]*m/g, "");
+}
+
+/**
+ * Parses the output of `wrangler whoami --json`. Returns undefined if it
+ * isn't JSON, e.g. because the installed wrangler predates the flag.
+ */
+export function parseWhoamiJson(output: string): WhoamiResult | undefined {
+	const text = output.trim();
+	if (!text.startsWith("{")) {
+		return undefined;
+	}
+
+	let data: {
+		loggedIn?: unknown;
+		authType?: unknown;
+		email?: unknown;
+		accounts?: unknown;
+		tokenPermissions?: unknown;
+	};
+	try {
+		data = JSON.parse(text);
+	} catch {
+		return undefined;
+	}
+	if (typeof data.loggedIn !== "boolean") {
+		return undefined;
+	}
+
+	const accounts = Array.isArray(data.accounts)
+		? data.accounts
+			.filter((account) => typeof account?.id === "string" && ACCOUNT_ID.test(account.id))
+			.map((account) => ({ id: account.id as string, name: typeof account.name === "string" ? account.name : account.id }))
+		: [];
+
+	return {
+		loggedIn: data.loggedIn,
+		authType: typeof data.authType === "string" ? data.authType : undefined,
+		email: typeof data.email === "string" && data.email !== REDACTED ? data.email : undefined,
+		accounts,
+		tokenPermissions: Array.isArray(data.tokenPermissions)
+			? data.tokenPermissions.filter((scope): scope is string => typeof scope === "string")
+			: undefined,
+	};
+}
+
+/**
+ * Parses the text output of `wrangler whoami`
+ */
+export function parseWhoamiOutput(output: string): WhoamiResult {
+	const lines = stripAnsi(output).split(/\r?\n/);
+	const result: WhoamiResult = { loggedIn: true, accounts: [] };
+	const seen = new Set<string>();
+	const addAccount = (name: string, id: string) => {
+		if (!seen.has(id)) {
+			seen.add(id);
+			// Without a name to go by, show the ID
+			result.accounts.push({ name: name === REDACTED ? id : name, id });
+		}
+	};
+
+	let inPermissions = false;
+	for (const rawLine of lines) {
+		const line = rawLine.trimEnd();
+
+		// 👋 You are logged in with an OAuth Token, associated with the email dev@example.com.
+		const login = line.match(/You are logged in with an? (.+? (?:Token|Key))\b/);
+		if (login) {
+			result.authType = login[1];
+			const email = line.match(/associated with the email (.+?)\.?$/)?.[1];
+			if (email && email !== REDACTED) {
+				result.email = email;
+			}
+			continue;
+		}
+
+		// Table row: │ Account Name │ Account ID │. Match the ID cell from the
+		// end, as account names may themselves contain │.
+		const row = line.match(/^│ (.*?) +│ ([0-9a-f]{32}) +│$/i);
+		if (row) {
+			addAccount(row[1].trim(), row[2]);
+			continue;
+		}
+
+		// Older format: `name`: `id`
+		const legacy = line.match(/`([^`]+)`:\s*`([0-9a-f]{32})`/i);
+		if (legacy) {
+			addAccount(legacy[1], legacy[2]);
+			continue;
+		}
+
+		if (/You are not authenticated|not logged in|login required/i.test(line)) {
+			result.loggedIn = false;
+			continue;
+		}
+
+		// 🔓 Token Permissions: followed by "Scope (Access)" and "- scope (access)" lines
+		if (line.includes("Token Permissions:")) {
+			inPermissions = true;
+			result.tokenPermissions = [];
+			continue;
+		}
+		if (inPermissions) {
+			const scope = line.match(/^- (\S+)(?: \((\w+)\))?$/);
+			if (scope) {
+				result.tokenPermissions?.push(scope[2] ? `${scope[1]}:${scope[2]}` : scope[1]);
+			} else if (line !== "Scope (Access)") {
+				inPermissions = false;
+			}
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Runs wrangler with the given arguments and collects its output
+ */
+function captureWrangler(args: string[]): Promise<{ code: number | null; stdout: string; stderr: string }> {
+	return new Promise((resolve, reject) => {
+		let wrangler: ChildProcess;
+		try {
+			wrangler = spawnWrangler(args, { stdio: "pipe" });
+		} catch (error) {
+			reject(error);
+			return;
+		}
+
+		let stdout = "";
+		let stderr = "";
+
+		if (wrangler.stdout && wrangler.stderr) {
+			wrangler.stdout.on("data", (data) => {
+				stdout += data.toString();
+			});
+
+			wrangler.stderr.on("data", (data) => {
+				stderr += data.toString();
+			});
+		}
+
+		wrangler.on("error", (error) => {
+			reject(error);
+		});
+
+		wrangler.on("exit", (code) => {
+			resolve({ code, stdout, stderr });
+		});
+	});
+}
+
+/**
+ * Runs `wrangler whoami`, as JSON if the installed wrangler supports it.
+ * Rejects if wrangler can't be run or fails without saying why.
+ */
+export async function runWhoami(): Promise<WhoamiResult> {
+	if (!jsonUnsupported) {
+		const { stdout, stderr } = await captureWrangler(["whoami", "--json"]);
+		// Exits 1 with {"loggedIn":false} when not logged in
+		const result = parseWhoamiJson(stdout);
+		if (result) {
+			return result;
+		}
+		if (stripAnsi(stdout + stderr).includes("Unknown argument: json")) {
+			jsonUnsupported = true;
+		}
+	}
+
+	const { code, stdout, stderr } = await captureWrangler(["whoami"]);
+	const result = parseWhoamiOutput(stdout + stderr);
+	if (code !== 0 && result.loggedIn && result.accounts.length === 0) {
+		throw new Error(`wrangler whoami failed (exit code ${code}). Please check your Cloudflare credentials.`);
+	}
+	return result;
+}
@@ -0,0 +1,94 @@
+/**
+ * Finds the wrangler to run and spawns it. Every wrangler invocation goes
+ * through here, so they all use the same wrangler.
+ *
+ * Resolution order:
+ * 1. WRONGLER_WRANGLER_PATH (set by --wrangler-path), e.g. a test double
+ * 2. the wrangler installed in the project, found from the project root
+ * 3. the wrangler installed next to wrongler
+ */
+
+import { spawn, type ChildProcess, type SpawnOptions } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+
+export const WRANGLER_PATH_ENV = "WRONGLER_WRANGLER_PATH";
+
+export type WranglerSource = "override" | "project" | "wrongler";
+
+export interface WranglerBinary {
+	/** The wrangler.js to run with node, or an executable for overrides that aren't JavaScript */
+	path: string;
+	source: WranglerSource;
+}
+
+const WRANGLER_BIN = "wrangler/bin/wrangler.js";
+
+/**
+ * Works out which wrangler to run for a project. Throws if there is none.
+ */
+export function resolveWrangler(projectRoot: string = process.cwd()): WranglerBinary {
+	const override = process.env[WRANGLER_PATH_ENV];
+	if (override) {
+		const overridePath = path.resolve(projectRoot, override);
+		if (!existsSync(overridePath)) {
+			throw new Error(`${WRANGLER_PATH_ENV} points to ${overridePath}, which does not exist`);
+		}
+		return { path: overridePath, source: "override" };
+	}
+
+	// In a monorepo the project may use another wrangler than wrongler itself
+	try {
+		return { path: require.resolve(WRANGLER_BIN, { paths: [projectRoot] }), source: "project" };
+	} catch {
+		// Fall through to wrongler's own
+	}
+
+	try {
+		return { path: require.resolve(WRANGLER_BIN), source: "wrongler" };
+	} catch {
+		throw new Error(`wrangler is not installed. Install it with \`npm install wrangler\` or set ${WRANGLER_PATH_ENV}.`);
+	}
+}
+
+/**
+ * Gets the version of a wrangler from the package it belongs to, if any
+ */
+export function getWranglerVersion(binary: WranglerBinary): string | undefined {
+	let dir = path.dirname(binary.path);
+	while (true) {
+		const packagePath = path.join(dir, "package.json");
+		if (existsSync(packagePath)) {
+			try {
+				const pkg = JSON.parse(readFileSync(packagePath, "utf-8")) as { name?: string; version?: string };
+				if (pkg.name === "wrangler") {
+					return pkg.version;
+				}
+			} catch {
+				// Not a package we can read - keep looking
+			}
+		}
+
+		const parent = path.dirname(dir);
+		if (parent === dir) {
+			return undefined;
+		}
+		dir = parent;
+	}
+}
+
+/**
+ * Spawns wrangler with the given arguments. Wrangler is resolved from
+ * `options.cwd`, which defaults to the current directory. Throws if it can't
+ * be found.
+ */
+export function spawnWrangler(args: string[], options: SpawnOptions = {}): ChildProcess {
+	const binary = resolveWrangler(options.cwd ? String(options.cwd) : process.cwd());
+
+	// Test doubles may be scripts or binaries rather than JavaScript
+	const [command, commandArgs] = /\.[cm]?js$/.test(binary.path)
+		? ["node", [binary.path, ...args]]
+		: [binary.path, args];
+
+	return spawn(command, commandArgs, { shell: false, ...options });
+}
@@ -0,0 +1,199 @@
+/**
+ * Local build step - bundles the worker with `wrangler deploy --dry-run` so we
+ * know its import graph and can tell whether a change affects the output
+ */
+
+import type { ChildProcess } from "node:child_process";
+import { createHash, type Hash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, statSync } from "node:fs";
+import path from "node:path";
+import {
+	buildDeployArgs,
+	DeployAbortedError,
+	DeployError,
+	toDryRunDeployParams,
+	type DeployOptions,
+	type DeployParams,
+} from "./deploy";
+import { spawnWrangler } from "../wrangler-runner";
+
+export interface BuildResult {
+	/** Hash of the bundled output, assets and effective deploy settings */
+	hash: string;
+	/** Absolute paths of the project source files that ended up in the bundle */
+	bundleInputs: string[] | undefined;
+}
+
+/**
+ * Whether the worker can be built locally ahead of the deploy. Without
+ * bundling there is no esbuild output to compare, and a `--dry-run` session
+ * never uploads anything anyway.
+ */
+export function canBuildLocally(params: DeployParams): boolean {
+	return !params.noBundle && !params.dryRun;
+}
+
+/**
+ * Reads the source files that went into the bundle from an esbuild metafile.
+ * Dependencies under node_modules and generated files under .wrangler are
+ * left out; workspace packages resolve to their real paths and are kept.
+ */
+function readBundleInputs(metafilePath: string, cwd: string): string[] | undefined {
+	try {
+		const metafile = JSON.parse(readFileSync(metafilePath, "utf-8")) as { inputs?: Record<string, unknown> };
+		if (!metafile.inputs) {
+			return undefined;
+		}
+
+		const inputs = Object.keys(metafile.inputs)
+			// Skip esbuild namespaces such as `wrangler:modules-watch` or `<define:...>`
+			.filter((input) => !/^[\w-]+:(?![\\/])/.test(input) && !input.startsWith("<"))
+			.map((input) => path.resolve(cwd, input))
+			.filter((input) => !input.split(path.sep).some((part) => part === "node_modules" || part === ".wrangler"))
+			.filter((input) => existsSync(input));
+
+		return [...new Set(inputs)].sort();
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Feeds every file below a directory into the hash, in a stable order
+ */
+function hashDirectory(hash: Hash, root: string, dir = root): void {
+	if (!existsSync(dir)) {
+		return;
+	}
+
+	for (const entry of readdirSync(dir).sort()) {
+		const entryPath = path.join(dir, entry);
+		if (statSync(entryPath).isDirectory()) {
+			hashDirectory(hash, root, entryPath);
+		} else {
+			hash.update(path.relative(root, entryPath));
+			hash.update("\0");
+			hash.update(readFileSync(entryPath));
+			hash.update("\0");
+		}
+	}
+}
+
+/**
+ * Hashes everything that determines what a deploy uploads: the bundle, the
+ * static assets and the deploy arguments and config they are uploaded with
+ */
+function hashBuild(params: DeployParams, outDir: string): string {
+	const hash = createHash("sha256");
+
+	hash.update(JSON.stringify({
+		// The version message changes on every deploy without changing the worker
+		args: buildDeployArgs({ ...params, message: undefined }),
+		config: { ...params.config, configPath: undefined },
+		accountId: params.accountId,
+	}));
+
+	hash.update("bundle\0");
+	hashDirectory(hash, outDir);
+
+	if (params.assetsOptions?.directory) {
+		hash.update("assets\0");
+		hashDirectory(hash, params.assetsOptions.directory);
+	}
+
+	if (params.legacyAssetPaths) {
+		hash.update("site\0");
+		hashDirectory(hash, params.legacyAssetPaths.baseDirectory);
+	}
+
+	return hash.digest("hex");
+}
+
+/**
+ * Bundles the worker into `.wrangler/wrongler/build` without uploading it
+ */
+export async function buildWorker(params: DeployParams, options: DeployOptions = {}): Promise<BuildResult> {
+	return new Promise((resolve, reject) => {
+		if (options.signal?.aborted) {
+			reject(new DeployAbortedError());
+			return;
+		}
+
+		const cwd = params.projectRoot || process.cwd();
+		const buildDir = path.join(cwd, ".wrangler", "wrongler");
+		const outDir = path.join(buildDir, "build");
+		const metafilePath = path.join(buildDir, "bundle-meta.json");
+
+		// Start from a clean output directory so stale files don't affect the hash
+		rmSync(outDir, { recursive: true, force: true });
+		rmSync(metafilePath, { force: true });
+		mkdirSync(outDir, { recursive: true });
+
+		// Preview and gradual mode upload the same bundle, so build them like a deploy too
+		const args = buildDeployArgs({
+			...toDryRunDeployParams(params),
+			outDir,
+			outFile: undefined,
+			metafile: metafilePath,
+		});
+
+		// Build environment variables
+		const env = { ...process.env };
+		if (params.accountId) {
+			env.CLOUDFLARE_ACCOUNT_ID = params.accountId;
+		}
+
+		// The build is an implementation detail, so its output is only shown on failure
+		let wrangler: ChildProcess;
+		try {
+			wrangler = spawnWrangler(args, {
+				stdio: "pipe",
+				cwd,
+				env,
+			});
+		} catch (error) {
+			reject(error);
+			return;
+		}
+
+		let output = "";
+
+		if (wrangler.stdout && wrangler.stderr) {
+			wrangler.stdout.on("data", (data) => {
+				output += data.toString();
+			});
+
+			wrangler.stderr.on("data", (data) => {
+				output += data.toString();
+			});
+		}
+
+		// Nothing has been uploaded yet, so the build can always be abandoned
+		let aborted = false;
+		const onAbort = () => {
+			aborted = true;
+			wrangler.kill();
+		};
+		options.signal?.addEventListener("abort", onAbort, { once: true });
+
+		wrangler.on("error", (error) => {
+			options.signal?.removeEventListener("abort", onAbort);
+			reject(error);
+		});
+
+		wrangler.on("exit", (code) => {
+			options.signal?.removeEventListener("abort", onAbort);
+
+			if (aborted) {
+				reject(new DeployAbortedError());
+			} else if (code === 0) {
+				resolve({
+					hash: hashBuild(params, outDir),
+					bundleInputs: readBundleInputs(metafilePath, cwd),
+				});
+			} else {
+				reject(new DeployError(`wrangler build failed with exit code ${code}`, code, output.trim()));
+			}
+		});
+	});
+}
@@ -0,0 +1,105 @@
+/**
+ * Change set - accumulates the file changes between two deployments
+ */
+
+import type { FileChange } from "../types";
+
+/**
+ * Cloudflare limits version messages to 100 characters
+ */
+const MAX_MESSAGE_LENGTH = 100;
+
+const CHANGE_ICONS: Record<FileChange["type"], string> = {
+	add: "+",
+	change: "~",
+	unlink: "-",
+};
+
+export class ChangeSet {
+	private changes = new Map<string, FileChange["type"]>();
+
+	get size(): number {
+		return this.changes.size;
+	}
+
+	/**
+	 * Records a change, folding it into any earlier change to the same path:
+	 * a file that was added and then edited is still "added", a file that was
+	 * added and removed again drops out, and so on
+	 */
+	record(change: FileChange): void {
+		const previous = this.changes.get(change.path);
+
+		if (previous === "add" && change.type === "unlink") {
+			this.changes.delete(change.path);
+		} else if (previous === "add") {
+			// Still a new file, whatever happened to it since
+		} else if (previous === "unlink" && change.type === "add") {
+			this.changes.set(change.path, "change");
+		} else {
+			this.changes.set(change.path, change.type);
+		}
+	}
+
+	/**
+	 * Returns the accumulated changes and starts a new, empty set
+	 */
+	take(): FileChange[] {
+		const changes = this.list();
+		this.changes.clear();
+		return changes;
+	}
+
+	/**
+	 * Puts changes back, e.g. when the deploy that took them didn't go live.
+	 * Changes recorded since then are applied on top.
+	 */
+	restore(changes: FileChange[]): void {
+		const newer = this.take();
+		for (const change of [...changes, ...newer]) {
+			this.record(change);
+		}
+	}
+
+	list(): FileChange[] {
+		return [...this.changes.entries()]
+			.map(([path, type]) => ({ path, type }))
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+}
+
+/**
+ * Formats changes compactly, e.g. `~src/index.ts, +src/util.ts`
+ */
+export function formatChangeList(changes: FileChange[]): string {
+	return changes.map((change) => `${CHANGE_ICONS[change.type]}${change.path}`).join(", ");
+}
+
+/**
+ * Builds the version message attached to a YOLO deployment, so the dashboard
+ * shows what each version contained
+ */
+export function buildVersionMessage(changes: FileChange[], manual = false): string {
+	const prefix = "YOLO: ";
+	if (changes.length === 0) {
+		return `${prefix}${manual ? "manual redeploy" : "initial deploy"}`;
+	}
+
+	// Add files until the message would get too long, then summarise the rest
+	let message = prefix;
+	for (let i = 0; i < changes.length; i++) {
+		const entry = `${i > 0 ? ", " : ""}${formatChangeList([changes[i]])}`;
+		const remaining = changes.length - i - 1;
+		const suffix = remaining > 0 ? ` and ${remaining} more` : "";
+		if ((message + entry + suffix).length > MAX_MESSAGE_LENGTH) {
+			const rest = ` and ${changes.length - i} more`;
+			if (i === 0) {
+				return `${prefix}${changes.length} changed file${changes.length === 1 ? "" : "s"}`;
+			}
+			return (message + rest).slice(0, MAX_MESSAGE_LENGTH);
+		}
+		message += entry;
+	}
+
+	return message;
+}
@@ -0,0 +1,135 @@
+/**
+ * Pre-deploy checks - type-check, lint or test commands that gate each YOLO deploy
+ */
+
+import { spawn } from "node:child_process";
+import type { CheckSettings } from "../settings";
+import { DeployAbortedError } from "./deploy";
+
+export interface PreDeployCheck {
+	name: string;
+	command: string;
+}
+
+export interface CheckFailure extends PreDeployCheck {
+	exitCode: number | null;
+	/** Combined stdout and stderr of the failing command */
+	output: string;
+	duration: number;
+}
+
+export interface CheckRunOptions {
+	cwd: string;
+	/** Kills the running check, e.g. when a newer change supersedes the deploy */
+	signal?: AbortSignal;
+}
+
+/**
+ * Normalises checks from .wronglerrc.json and `--check` flags
+ */
+export function toPreDeployChecks(checks: Array<string | CheckSettings> | undefined): PreDeployCheck[] {
+	if (checks === undefined) {
+		return [];
+	}
+	// Settings come from JSON, so don't trust the types
+	if (!Array.isArray(checks)) {
+		throw new Error(`"checks" must be a list of commands (got ${JSON.stringify(checks)})`);
+	}
+
+	return checks.map((check, index) => {
+		if (typeof check === "string" && check.trim()) {
+			return { name: check, command: check };
+		}
+		if (
+			check !== null &&
+			typeof check === "object" &&
+			typeof check.command === "string" &&
+			check.command.trim() &&
+			(check.name === undefined || typeof check.name === "string")
+		) {
+			return { name: check.name ?? check.command, command: check.command };
+		}
+		throw new Error(
+			`Check ${index + 1} must be a command or { "name"?: string, "command": string } (got ${JSON.stringify(check)})`
+		);
+	});
+}
+
+/**
+ * Runs a single check through the shell, capturing its output
+ */
+function runCheck(check: PreDeployCheck, options: CheckRunOptions): Promise<CheckFailure | null> {
+	return new Promise((resolve, reject) => {
+		if (options.signal?.aborted) {
+			reject(new DeployAbortedError());
+			return;
+		}
+
+		const startTime = Date.now();
+		// In its own process group, so that aborting also stops whatever the
+		// shell started (e.g. `npm test` and its test runner)
+		const child = spawn(check.command, {
+			stdio: "pipe",
+			shell: true,
+			detached: process.platform !== "win32",
+			cwd: options.cwd,
+			// Most tools only colour their output for a TTY; keep it for the failure report
+			env: { ...process.env, FORCE_COLOR: process.env.FORCE_COLOR ?? "1" },
+		});
+
+		let output = "";
+
+		if (child.stdout && child.stderr) {
+			child.stdout.on("data", (data) => {
+				output += data.toString();
+			});
+
+			child.stderr.on("data", (data) => {
+				output += data.toString();
+			});
+		}
+
+		let aborted = false;
+		const onAbort = () => {
+			aborted = true;
+			try {
+				process.kill(-child.pid!);
+			} catch {
+				// Not in a group of its own (Windows), or already gone
+				child.kill();
+			}
+		};
+		options.signal?.addEventListener("abort", onAbort, { once: true });
+
+		child.on("error", (error) => {
+			options.signal?.removeEventListener("abort", onAbort);
+			reject(error);
+		});
+
+		child.on("exit", (code) => {
+			options.signal?.removeEventListener("abort", onAbort);
+
+			if (aborted) {
+				reject(new DeployAbortedError());
+			} else if (code === 0) {
+				resolve(null);
+			} else {
+				resolve({ ...check, exitCode: code, output: output.trim(), duration: Date.now() - startTime });
+			}
+		});
+	});
+}
+
+/**
+ * Runs the checks in order and stops at the first failure, which is returned.
+ * Resolves to null when every check passed.
+ */
+export async function runChecks(checks: PreDeployCheck[], options: CheckRunOptions): Promise<CheckFailure | null> {
+	for (const check of checks) {
+		const failure = await runCheck(check, options);
+		if (failure) {
+			return failure;
+		}
+	}
+	return null;
+}
@@ -0,0 +1,235 @@
+/**
+ * Control server - a localhost HTTP API for a running YOLO session, so editor
+ * tasks and dashboards can follow and drive it
+ *
+ *   GET  /status         state, last deployment and statistics
+ *   GET  /history        recent deployments from the deployment log (?limit=n)
+ *   GET  /events         Server-Sent Events stream of session events
+ *   POST /deploy         redeploy now
+ *   POST /pause          stop deploying, keep collecting changes
+ *   POST /resume         deploy what was collected while paused
+ *   POST /rollback       roll back to the previous version (?steps=n)
+ *   POST /promote        promote the latest preview version
+ *   POST /abort-rollout  abort a gradual rollout in progress
+ *   POST /stop           end the session
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { readDeployLog } from "../deploy-log";
+import type { SessionInfo, YoloEvent } from "./events";
+import type { YoloController } from "./session";
+
+export const DEFAULT_CONTROL_PORT = 8790;
+
+/**
+ * Only loopback addresses are ever bound
+ */
+const HOST = "127.0.0.1";
+
+/**
+ * Comment lines keep idle event streams from being closed by proxies
+ */
+const KEEPALIVE_INTERVAL_MS = 15_000;
+
+export interface ControlServerOptions {
+	port: number;
+	session: SessionInfo;
+	/** Ends the session for POST /stop; defaults to `controller.stop()` */
+	onStop?: () => Promise<void>;
+}
+
+export interface ControlServer {
+	url: string;
+	close(): Promise<void>;
+}
+
+/**
+ * Sends a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+	res.writeHead(status, { "content-type": "application/json" });
+	res.end(`${JSON.stringify(body, null, 2)}\n`);
+}
+
+/**
+ * Rejects requests that a web page could have made on the user's behalf:
+ * cross-origin requests and DNS rebinding (a foreign host name resolving to
+ * 127.0.0.1) both show up in the headers
+ */
+function isLocalRequest(req: IncomingMessage, port: number): boolean {
+	const localHosts = [`${HOST}:${port}`, `localhost:${port}`];
+	if (!req.headers.host || !localHosts.includes(req.headers.host)) {
+		return false;
+	}
+	const origin = req.headers.origin;
+	return origin === undefined || localHosts.some((host) => origin === `http://${host}`);
+}
+
+/**
+ * Parses a positive whole number from the query string
+ */
+function readCount(url: URL, name: string, fallback: number): number | undefined {
+	const value = url.searchParams.get(name);
+	if (value === null) {
+		return fallback;
+	}
+	const count = Number(value);
+	return Number.isInteger(count) && count > 0 ? count : undefined;
+}
+
+/**
+ * Starts the control server for a session. Resolves once it is listening.
+ */
+export async function startControlServer(
+	controller: YoloController,
+	options: ControlServerOptions
+): Promise<ControlServer> {
+	// The newest deploy-success event, for /status
+	let lastDeployment: Extract<YoloEvent, { type: "deploy-success" }> | undefined;
+	controller.events.on("deploy-success", (event: Extract<YoloEvent, { type: "deploy-success" }>) => {
+		lastDeployment = event;
+	});
+
+	const streams = new Set<ServerResponse>();
+	// The port actually bound, which differs from options.port when that is 0
+	let port = options.port;
+
+	const actions: Record<string, (url: URL) => Promise<unknown> | unknown> = {
+		deploy: () => {
+			void controller.deployNow();
+			return { queued: true };
+		},
+		pause: () => {
+			controller.pause();
+			return { state: controller.state };
+		},
+		resume: () => {
+			controller.resume();
+			return { state: controller.state };
+		},
+		rollback: (url) => {
+			const steps = readCount(url, "steps", 1);
+			if (steps === undefined) {
+				throw new Error("steps must be a whole number of at least 1");
+			}
+			void controller.rollback(steps);
+			return { queued: true };
+		},
+		promote: () => {
+			void controller.promote();
+			return { queued: true };
+		},
+		"abort-rollout": () => ({ aborted: controller.abortRollout("aborted through the control server") }),
+		stop: () => {
+			// Answer first, the session may end the process once it has stopped
+			setImmediate(() => void (options.onStop ? options.onStop() : controller.stop()));
+			return { stopping: true };
+		},
+	};
+
+	const server = createServer((req, res) => {
+		if (!isLocalRequest(req, port)) {
+			sendJson(res, 403, { error: "Only local requests are accepted" });
+			return;
+		}
+
+		const url = new URL(req.url ?? "/", `http://${HOST}:${port}`);
+		const name = url.pathname.replace(/^\/+|\/+$/g, "");
+
+		if (req.method === "GET" && name === "status") {
+			sendJson(res, 200, {
+				...options.session,
+				state: controller.state,
+				lastDeployment: lastDeployment && {
+					versionId: lastDeployment.versionId,
+					workerUrl: lastDeployment.workerUrl,
+					previewUrl: lastDeployment.previewUrl,
+					deployedAt: lastDeployment.timestamp,
+				},
+				stats: controller.stats,
+			});
+			return;
+		}
+
+		if (req.method === "GET" && name === "history") {
+			const limit = readCount(url, "limit", 20);
+			if (limit === undefined) {
+				sendJson(res, 400, { error: "limit must be a whole number of at least 1" });
+				return;
+			}
+			const entries = readDeployLog({ worker: options.session.worker, env: options.session.env });
+			sendJson(res, 200, entries.slice(-limit));
+			return;
+		}
+
+		if (req.method === "GET" && name === "events") {
+			res.writeHead(200, {
+				"content-type": "text/event-stream",
+				"cache-control": "no-cache",
+				connection: "keep-alive",
+			});
+			res.write(": connected\n\n");
+			streams.add(res);
+			req.on("close", () => streams.delete(res));
+			return;
+		}
+
+		// Only the actions themselves, not what objects inherit (/toString)
+		const action = Object.hasOwn(actions, name) ? actions[name] : undefined;
+		if (!action) {
+			sendJson(res, 404, { error: `Unknown endpoint: ${url.pathname}` });
+			return;
+		}
+		if (req.method !== "POST") {
+			res.setHeader("allow", "POST");
+			sendJson(res, 405, { error: `${url.pathname} only accepts POST` });
+			return;
+		}
+
+		Promise.resolve()
+			.then(() => action(url))
+			.then(
+				(result) => sendJson(res, 200, result),
+				(error) => sendJson(res, 400, { error: error instanceof Error ? error.message : String(error) })
+			);
+	});
+
+	// Forward every session event to the open streams
+	const onEvent = (event: YoloEvent) => {
+		for (const stream of streams) {
+			stream.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+		}
+	};
+	controller.events.on("event", onEvent);
+
+	const keepalive = setInterval(() => {
+		for (const stream of streams) {
+			stream.write(": keepalive\n\n");
+		}
+	}, KEEPALIVE_INTERVAL_MS);
+	keepalive.unref();
+
+	await new Promise<void>((resolve, reject) => {
+		server.once("error", reject);
+		server.listen(options.port, HOST, () => {
+			server.off("error", reject);
+			resolve();
+		});
+	});
+
+	port = (server.address() as AddressInfo).port;
+
+	return {
+		url: `http://${HOST}:${port}`,
+		close: async () => {
+			controller.events.off("event", onEvent);
+			clearInterval(keepalive);
+			for (const stream of streams) {
+				stream.end();
+			}
+			streams.clear();
+			await new Promise<void>((resolve) => server.close(() => resolve()));
+		},
+	};
+}
@@ -1,23 +1,32 @@
 /**
- * Deploy wrapper - invokes wrangler deploy command
+ * Deploy wrapper - invokes wrangler deploy, or wrangler versions upload in preview mode
  */
 
-import { spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
+import path from "node:path";
+import { isDeepStrictEqual } from "node:util";
 import type { DeploymentResult, Config, Entry, AssetsOptions, LegacyAssetPaths } from "../types";
+import { configToDeployFields } from "./params";
+import { findConfigPath } from "../config";
+import { spawnWrangler } from "../wrangler-runner";
 
 /**
  * Parses wrangler output to extract deployment information
  */
-function parseWranglerOutput(output: string): { url?: string; versionId?: string } {
+function parseWranglerOutput(output: string): { url?: string; previewUrl?: string; versionId?: string } {
 	const lines = output.split("\n");
 	let url: string | undefined;
+	let previewUrl: string | undefined;
 	let versionId: string | undefined;
 
 	for (const line of lines) {
 		// Match deployment URL patterns
 		if (line.includes("https://") && line.includes(".workers.dev")) {
 			const match = line.match(/https:\/\/[^\s]+\.workers\.dev[^\s]*/);
-			if (match && !url) {
+			if (match && line.includes("Preview URL")) {
+				// `wrangler versions upload` prints the version's own URL
+				previewUrl ??= match[0];
+			} else if (match && !url) {
 				url = match[0];
 			}
 		}
@@ -31,7 +40,23 @@ function parseWranglerOutput(output: string): { url?: string; versionId?: string
 		}
 	}
 
-	return { url, versionId };
+	return { url, previewUrl, versionId };
+}
+
+/**
+ * - deploy: `wrangler deploy`, the new version gets all traffic
+ * - preview: `wrangler versions upload`, the new version is only reachable
+ *   through its preview URL until it is promoted
+ * - gradual: `wrangler versions upload`, then the new version is rolled out
+ *   in steps by the watcher
+ */
+export type DeployMode = "deploy" | "preview" | "gradual";
+
+/**
+ * Whether the mode uploads a version instead of deploying it
+ */
+export function isUploadMode(mode: DeployMode | undefined): boolean {
+	return mode === "preview" || mode === "gradual";
 }
 
 export interface DeployParams {
@@ -72,65 +97,380 @@ export interface DeployParams {
 	containersRollout: "immediate" | "gradual" | undefined;
 	strict: boolean | undefined;
 	verbose: boolean | undefined;
+	passthroughArgs?: string[];
+	/** Version message, shown in the Cloudflare dashboard */
+	message?: string;
+	mode?: DeployMode;
 }
 
 /**
- * Deploys a worker using wrangler CLI
+ * Pushes a boolean flag, using yargs' `--no-<flag>` form for false
  */
-export default async function deploy(params: DeployParams): Promise<DeploymentResult> {
-	return new Promise((resolve, reject) => {
-		// Find wrangler binary
-		let wranglerPath: string;
-		try {
-			wranglerPath = require.resolve("wrangler/bin/wrangler.js");
-		} catch {
-			reject(new Error("wrangler is not installed"));
-			return;
+function pushBoolean(args: string[], flag: string, value: boolean | undefined): void {
+	if (value !== undefined) {
+		args.push(value ? `--${flag}` : `--no-${flag}`);
+	}
+}
+
+/**
+ * Pushes one `--flag key:value` pair per entry that differs from the config
+ */
+function pushKeyValues(
+	args: string[],
+	flag: string,
+	values: Record<string, string> | undefined,
+	configValues: Record<string, string> | undefined
+): void {
+	for (const [key, value] of Object.entries(values ?? {})) {
+		if (typeof value === "string" && !isDeepStrictEqual(value, configValues?.[key])) {
+			args.push(flag, `${key}:${value}`);
 		}
+	}
+}
 
-		// Build wrangler deploy command arguments
-		const args: string[] = ["deploy"];
+/**
+ * Normalises a flag token to its option name: `--name=foo` and `--no-minify`
+ * become `--name` and `--minify`
+ */
+function flagName(token: string): string {
+	const name = token.split("=")[0];
+	return name.startsWith("--no-") ? `--${name.slice(5)}` : name;
+}
 
-		// Add entry file
-		if (params.entry.file) {
-			args.push(params.entry.file);
+/**
+ * Groups passthrough tokens into flags with their values, e.g.
+ * `["--tag", "v1", "--latest"]` -> `[["--tag", "v1"], ["--latest"]]`
+ */
+function groupArgs(tokens: string[]): string[][] {
+	const groups: string[][] = [];
+	for (const token of tokens) {
+		if (token.startsWith("-") || groups.length === 0) {
+			groups.push([token]);
+		} else {
+			groups[groups.length - 1].push(token);
 		}
+	}
+	return groups;
+}
 
-		// Add worker name
-		if (params.name) {
-			args.push("--name", params.name);
+/**
+ * `wrangler deploy` flags, with their aliases, that `wrangler versions upload`
+ * doesn't have (compared against wrangler 4.86.0's command definitions). They
+ * configure how the worker is served rather than the version itself, except
+ * for `--metafile`, which upload just doesn't offer.
+ */
+const DEPLOY_ONLY_FLAGS = new Set([
+	"--triggers",
+	"--schedule",
+	"--schedules",
+	"--routes",
+	"--route",
+	"--domains",
+	"--domain",
+	"--metafile",
+	"--legacy-env",
+	"--keep-vars",
+	"--logpush",
+	"--old-asset-ttl",
+	"--dispatch-namespace",
+	"--containers-rollout",
+	"--strict",
+	"--experimental-autoconfig",
+	"--x-autoconfig",
+]);
+
+/**
+ * `wrangler versions upload` flags that `wrangler deploy` doesn't have
+ */
+const UPLOAD_ONLY_FLAGS = new Set(["--preview-alias"]);
+
+/**
+ * Splits wrongler's own args into those the wrangler command accepts and the
+ * deploy-only ones that are dropped when uploading a version
+ */
+function splitOwnArgs(params: DeployParams): { kept: string[]; dropped: string[] } {
+	const kept: string[] = [];
+	const dropped: string[] = [];
+
+	for (const group of groupArgs(buildOwnArgs(params))) {
+		if (isUploadMode(params.mode) && DEPLOY_ONLY_FLAGS.has(flagName(group[0]))) {
+			dropped.push(group.join(" "));
+		} else {
+			kept.push(...group);
 		}
+	}
 
-		// Add environment
-		if (params.env) {
-			args.push("--env", params.env);
+	return { kept, dropped };
+}
+
+/**
+ * The params for bundling a worker locally with `wrangler deploy --dry-run`,
+ * whatever the mode. Uploading a version bundles the same way, but only
+ * `deploy` can write the esbuild metafile.
+ */
+export function toDryRunDeployParams(params: DeployParams): DeployParams {
+	const passthroughArgs = groupArgs(params.passthroughArgs ?? [])
+		.filter((group) => !UPLOAD_ONLY_FLAGS.has(flagName(group[0])))
+		.flat();
+	return { ...params, mode: "deploy", dryRun: true, passthroughArgs };
+}
+
+/**
+ * Flags that can't be applied when uploading a version, for warning about them once
+ */
+export function getDroppedUploadArgs(params: DeployParams): string[] {
+	return splitOwnArgs(params).dropped;
+}
+
+/**
+ * Splits the passthrough args into those that can be forwarded and those that
+ * conflict with a flag wrongler already sets from the config or its own options
+ */
+export function partitionPassthroughArgs(params: DeployParams): { forwarded: string[]; conflicts: string[] } {
+	const ownFlags = new Set(splitOwnArgs(params).kept.filter((token) => token.startsWith("-")).map(flagName));
+	const forwarded: string[] = [];
+	const conflicts: string[] = [];
+
+	for (const group of groupArgs(params.passthroughArgs ?? [])) {
+		if (group[0].startsWith("-") && ownFlags.has(flagName(group[0]))) {
+			conflicts.push(group.join(" "));
+		} else {
+			forwarded.push(...group);
 		}
+	}
+
+	return { forwarded, conflicts };
+}
+
+/**
+ * Builds the full wrangler arguments: wrongler's own flags followed by any
+ * passthrough args that don't conflict with them
+ */
+export function buildDeployArgs(params: DeployParams): string[] {
+	return [...splitOwnArgs(params).kept, ...partitionPassthroughArgs(params).forwarded];
+}
+
+/**
+ * Builds the `wrangler deploy` arguments for a set of DeployParams.
+ *
+ * Fields that only repeat what wrangler will read from the config file itself
+ * are not forwarded: CLI flags replace whole config sections in wrangler (e.g.
+ * `--assets` drops the `[assets]` binding), so forwarding them would change
+ * the deployment rather than just restate it.
+ */
+function buildOwnArgs(params: DeployParams): string[] {
+	const args: string[] = isUploadMode(params.mode) ? ["versions", "upload"] : ["deploy"];
+	const fromConfig = configToDeployFields(params.config, params.projectRoot);
+	const differs = <K extends keyof typeof fromConfig>(key: K, value: DeployParams[K]) =>
+		value !== undefined && !isDeepStrictEqual(value, fromConfig[key]);
 
-		// Add compatibility date
-		if (params.compatibilityDate) {
-			args.push("--compatibility-date", params.compatibilityDate);
+	// Add entry file
+	if (params.entry.file) {
+		args.push(params.entry.file);
+	}
+
+	// Add worker name
+	if (params.name) {
+		args.push("--name", params.name);
+	}
+
+	// Add environment
+	if (params.env) {
+		args.push("--env", params.env);
+	}
+
+	// A config file wrangler wouldn't pick up by itself (--config)
+	const configPath = params.config.configPath;
+	const defaultConfigPath = findConfigPath(params.projectRoot);
+	if (configPath && (!defaultConfigPath || path.resolve(configPath) !== path.resolve(defaultConfigPath))) {
+		args.push("--config", configPath);
+	}
+
+	// Add compatibility date
+	if (params.compatibilityDate) {
+		args.push("--compatibility-date", params.compatibilityDate);
+	}
+
+	// Add compatibility flags
+	if (params.compatibilityFlags && params.compatibilityFlags.length > 0) {
+		for (const flag of params.compatibilityFlags) {
+			args.push("--compatibility-flags", flag);
 		}
+	}
 
-		// Add compatibility flags
-		if (params.compatibilityFlags && params.compatibilityFlags.length > 0) {
-			for (const flag of params.compatibilityFlags) {
-				args.push("--compatibility-flags", flag);
-			}
+	// Static assets and Workers Sites
+	if (differs("assetsOptions", params.assetsOptions) && params.assetsOptions) {
+		args.push("--assets", params.assetsOptions.directory);
+	}
+
+	if (differs("legacyAssetPaths", params.legacyAssetPaths) && params.legacyAssetPaths) {
+		args.push("--site", params.legacyAssetPaths.baseDirectory);
+		for (const pattern of params.legacyAssetPaths.includePatterns ?? []) {
+			args.push("--site-include", pattern);
 		}
+		for (const pattern of params.legacyAssetPaths.excludePatterns ?? []) {
+			args.push("--site-exclude", pattern);
+		}
+	}
 
-		// Add other flags
-		if (params.minify) {
-			args.push("--minify");
+	// Vars, defines and aliases
+	pushKeyValues(args, "--var", params.vars, fromConfig.vars);
+	pushKeyValues(args, "--define", params.defines, fromConfig.defines);
+	pushKeyValues(args, "--alias", params.alias, fromConfig.alias);
+
+	// Triggers, routes and custom domains
+	if (differs("triggers", params.triggers)) {
+		for (const cron of params.triggers ?? []) {
+			args.push("--triggers", cron);
 		}
+	}
 
-		if (params.noBundle) {
-			args.push("--no-bundle");
+	if (differs("routes", params.routes)) {
+		for (const route of params.routes ?? []) {
+			args.push("--routes", route);
 		}
+	}
+
+	if (differs("domains", params.domains)) {
+		for (const domain of params.domains ?? []) {
+			args.push("--domains", domain);
+		}
+	}
+
+	if (differs("useServiceEnvironments", params.useServiceEnvironments)) {
+		pushBoolean(args, "legacy-env", !params.useServiceEnvironments);
+	}
+
+	// Bundling options
+	if (differs("jsxFactory", params.jsxFactory)) {
+		args.push("--jsx-factory", params.jsxFactory!);
+	}
+
+	if (differs("jsxFragment", params.jsxFragment)) {
+		args.push("--jsx-fragment", params.jsxFragment!);
+	}
+
+	if (differs("tsconfig", params.tsconfig)) {
+		args.push("--tsconfig", params.tsconfig!);
+	}
+
+	if (differs("minify", params.minify)) {
+		pushBoolean(args, "minify", params.minify);
+	}
+
+	if (differs("noBundle", params.noBundle)) {
+		args.push(params.noBundle ? "--no-bundle" : "--bundle");
+	}
+
+	if (params.outDir) {
+		args.push("--outdir", params.outDir);
+	}
+
+	if (params.outFile) {
+		args.push("--outfile", params.outFile);
+	}
+
+	if (params.metafile !== undefined && params.metafile !== false) {
+		args.push(params.metafile === true ? "--metafile" : `--metafile=${params.metafile}`);
+	}
+
+	// Deployment behaviour
+	if (differs("keepVars", params.keepVars)) {
+		pushBoolean(args, "keep-vars", params.keepVars);
+	}
+
+	if (differs("logpush", params.logpush)) {
+		pushBoolean(args, "logpush", params.logpush);
+	}
+
+	if (differs("uploadSourceMaps", params.uploadSourceMaps)) {
+		pushBoolean(args, "upload-source-maps", params.uploadSourceMaps);
+	}
+
+	if (params.oldAssetTtl !== undefined) {
+		args.push("--old-asset-ttl", String(params.oldAssetTtl));
+	}
+
+	if (params.dispatchNamespace) {
+		args.push("--dispatch-namespace", params.dispatchNamespace);
+	}
+
+	if (params.containersRollout) {
+		args.push("--containers-rollout", params.containersRollout);
+	}
+
+	if (params.strict) {
+		args.push("--strict");
+	}
+
+	if (params.experimentalAutoCreate) {
+		args.push("--experimental-auto-create");
+	}
+
+	if (params.message) {
+		args.push("--message", params.message);
+	}
+
+	if (params.dryRun) {
+		args.push("--dry-run");
+	}
 
-		if (params.dryRun) {
-			args.push("--dry-run");
+	return args;
+}
+
+/**
+ * Thrown when a deploy is aborted because a newer change superseded it
+ */
+export class DeployAbortedError extends Error {
+	constructor() {
+		super("Deployment superseded by a newer change");
+		this.name = "DeployAbortedError";
+	}
+}
+
+/**
+ * Thrown when wrangler exits with an error. `output` holds what wrangler
+ * printed, unless it went straight to the terminal in verbose mode.
+ */
+export class DeployError extends Error {
+	readonly exitCode: number | null;
+	readonly output: string;
+
+	constructor(message: string, exitCode: number | null, output = "") {
+		super(message);
+		this.name = "DeployError";
+		this.exitCode = exitCode;
+		this.output = output;
+	}
+}
+
+export interface DeployOptions {
+	/**
+	 * Aborts the deploy while wrangler is still bundling. Once the upload has
+	 * started the deploy runs to completion, so a half-uploaded version is
+	 * never left behind. In verbose mode wrangler's output isn't captured, so
+	 * the upload can't be detected and the signal is ignored.
+	 */
+	signal?: AbortSignal;
+}
+
+/**
+ * Wrangler prints the upload size right before it starts uploading
+ */
+const UPLOAD_STARTED_PATTERN = /Total Upload|Uploading|Uploaded /;
+
+/**
+ * Deploys a worker using wrangler CLI, or only uploads a new version in the upload modes
+ */
+export default async function deploy(params: DeployParams, options: DeployOptions = {}): Promise<DeploymentResult> {
+	return new Promise((resolve, reject) => {
+		if (options.signal?.aborted) {
+			reject(new DeployAbortedError());
+			return;
 		}
 
+		const args = buildDeployArgs(params);
+
 		// Decide stdio mode based on verbose flag
 		const stdio: import("child_process").StdioOptions = params.verbose
 			? "inherit"
@@ -143,20 +483,28 @@ export default async function deploy(params: DeployParams): Promise<DeploymentRe
 		}
 
 		// Spawn wrangler process
-		const wrangler = spawn("node", [wranglerPath, ...args], {
-			stdio,
-			shell: false,
-			cwd: params.projectRoot || process.cwd(),
-			env,
-		});
+		let wrangler: ChildProcess;
+		try {
+			wrangler = spawnWrangler(args, {
+				stdio,
+				cwd: params.projectRoot || process.cwd(),
+				env,
+			});
+		} catch (error) {
+			reject(error);
+			return;
+		}
 
 		// Capture output for parsing (only when not in verbose mode)
 		let stdout = "";
 		let stderr = "";
+		let uploading = false;
+		let aborted = false;
 
 		if (!params.verbose && wrangler.stdout && wrangler.stderr) {
 			wrangler.stdout.on("data", (data) => {
 				stdout += data.toString();
+				uploading ||= UPLOAD_STARTED_PATTERN.test(stdout);
 			});
 
 			wrangler.stderr.on("data", (data) => {
@@ -164,30 +512,40 @@ export default async function deploy(params: DeployParams): Promise<DeploymentRe
 			});
 		}
 
+		// Stop wrangler if a newer change arrives before the upload begins
+		const onAbort = () => {
+			if (!params.verbose && !uploading) {
+				aborted = true;
+				wrangler.kill();
+			}
+		};
+		options.signal?.addEventListener("abort", onAbort, { once: true });
+
 		wrangler.on("error", (error) => {
+			options.signal?.removeEventListener("abort", onAbort);
 			reject(error);
 		});
 
 		wrangler.on("exit", (code) => {
-			if (code === 0) {
+			options.signal?.removeEventListener("abort", onAbort);
+
+			if (aborted) {
+				reject(new DeployAbortedError());
+			} else if (code === 0) {
 				// Parse output to extract deployment info
 				const combinedOutput = stdout + stderr;
-				const { url, versionId } = parseWranglerOutput(combinedOutput);
+				const { url, previewUrl, versionId } = parseWranglerOutput(combinedOutput);
 
 				resolve({
 					versionId,
 					targets: url ? [url] : undefined,
+					previewUrl,
 					workerName: params.name,
 				});
 			} else {
-				// Show error output in non-verbose mode
-				if (!params.verbose) {
-					const errorOutput = (stdout + stderr).trim();
-					if (errorOutput) {
-						console.error(errorOutput);
-					}
-				}
-				reject(new Error(`wrangler deploy failed with exit code ${code}`));
+				// The formatter decides how to show wrangler's output
+				const command = isUploadMode(params.mode) ? "wrangler versions upload" : "wrangler deploy";
+				reject(new DeployError(`${command} failed with exit code ${code}`, code, (stdout + stderr).trim()));
 			}
 		});
 	});
@@ -0,0 +1,209 @@
+/**
+ * Event formatter - reports a YOLO session as typed events instead of text
+ */
+
+import type { FileChange } from "../types";
+import type { CheckFailure } from "./checks";
+import { DeployError } from "./deploy";
+import type { SessionInfo, ShortcutAction, YoloEvent } from "./events";
+import type { DeploymentStats, DeployResult, YoloFormatter } from "./output-formatter";
+import type { VersionSplit } from "./promote";
+import type { SmokeResult } from "./smoke";
+
+/**
+ * Distributes Omit over the event union, so each event keeps its own fields
+ */
+type EventInput = YoloEvent extends infer E ? (E extends YoloEvent ? Omit<E, "timestamp"> : never) : never;
+
+/**
+ * What wrangler printed before a failed command, if it was captured
+ */
+function wranglerOutput(error: Error | undefined): string | undefined {
+	return error instanceof DeployError && error.output ? error.output : undefined;
+}
+
+export class EventFormatter implements YoloFormatter {
+	private deploymentCount = 0;
+	private emitEvent: (event: YoloEvent) => void;
+
+	constructor(emit: (event: YoloEvent) => void) {
+		this.emitEvent = emit;
+	}
+
+	private emit(event: EventInput): void {
+		this.emitEvent({ ...event, timestamp: new Date().toISOString() } as YoloEvent);
+	}
+
+	formatInitialDeploy(session: SessionInfo): void {
+		this.emit({ type: "session-start", ...session });
+	}
+
+	formatClear(): void {
+		// Nothing to clear
+	}
+
+	formatShortcut(action: ShortcutAction): void {
+		this.emit({ type: "shortcut", action });
+	}
+
+	formatPaused(): void {
+		this.emit({ type: "paused" });
+	}
+
+	formatResumed(changes: FileChange[]): void {
+		this.emit({ type: "resumed", changes });
+	}
+
+	formatFileChange(change: FileChange): void {
+		this.emit({ type: "file-change", path: change.path, change: change.type });
+	}
+
+	formatDeployStart(changes: FileChange[] = []): void {
+		this.deploymentCount++;
+		this.emit({ type: "deploy-start", deployment: this.deploymentCount, changes });
+	}
+
+	formatDeploySuccess(result: DeployResult): void {
+		this.emit({
+			type: "deploy-success",
+			deployment: this.deploymentCount,
+			versionId: result.versionId,
+			workerUrl: result.workerUrl ?? result.targets?.[0]?.url,
+			previewUrl: result.previewUrl,
+			durationMs: result.duration,
+		});
+	}
+
+	formatNoEffectiveChange(duration: number): void {
+		this.emit({ type: "deploy-skipped", deployment: this.deploymentCount, durationMs: duration });
+	}
+
+	formatDeploySuperseded(duration: number): void {
+		this.emit({ type: "deploy-superseded", deployment: this.deploymentCount, durationMs: duration });
+	}
+
+	formatDeployBlocked(failure: CheckFailure): void {
+		this.emit({
+			type: "deploy-blocked",
+			deployment: this.deploymentCount,
+			check: failure.name,
+			command: failure.command,
+			exitCode: failure.exitCode,
+			output: failure.output,
+			durationMs: failure.duration,
+		});
+	}
+
+	formatDeployError(error: Error): void {
+		this.emit({
+			type: "deploy-error",
+			deployment: this.deploymentCount,
+			message: error.message,
+			...(error instanceof DeployError ? { exitCode: error.exitCode, output: error.output } : {}),
+		});
+	}
+
+	formatSmokeResults(results: SmokeResult[]): void {
+		this.emit({ type: "smoke-results", results });
+	}
+
+	formatSmokeSkipped(reason: string): void {
+		this.emit({ type: "smoke-skipped", reason });
+	}
+
+	formatRollback(versionId: string, error?: Error): void {
+		this.emit({ type: "rollback", versionId, error: error?.message, output: wranglerOutput(error) });
+	}
+
+	formatRollbackUnavailable(reason: string, error?: Error): void {
+		this.emit({ type: "rollback-unavailable", reason, output: wranglerOutput(error) });
+	}
+
+	formatPromoteHint(): void {
+		// The deploy-success event already says a preview version is ready
+	}
+
+	formatPromote(versionId: string, error?: Error): void {
+		this.emit({ type: "promote", versionId, error: error?.message, output: wranglerOutput(error) });
+	}
+
+	formatPromoteUnavailable(reason: string): void {
+		this.emit({ type: "promote-unavailable", reason });
+	}
+
+	formatRolloutStep(split: VersionSplit[]): void {
+		this.emit({ type: "rollout-step", split });
+	}
+
+	formatRolloutWait(intervalMs: number, nextPercentage: number): void {
+		this.emit({ type: "rollout-wait", intervalMs, nextPercentage });
+	}
+
+	formatRolloutSkipped(reason: string): void {
+		this.emit({ type: "rollout-skipped", reason });
+	}
+
+	formatRolloutComplete(versionId: string): void {
+		this.emit({ type: "rollout-complete", versionId });
+	}
+
+	formatHistoryError(versionId: string, error: Error): void {
+		this.emit({ type: "history-error", versionId, message: error.message });
+	}
+
+	formatRolloutAborted(reason: string, previousVersionId: string, revertError?: Error, stepError?: Error): void {
+		this.emit({
+			type: "rollout-aborted",
+			reason,
+			previousVersionId,
+			revertError: revertError?.message,
+			output: wranglerOutput(stepError),
+			revertOutput: wranglerOutput(revertError),
+		});
+	}
+
+	formatConfigReload(changedKeys: string[]): void {
+		this.emit({ type: "config-reload", changedKeys });
+	}
+
+	formatConfigError(error: Error): void {
+		this.emit({ type: "config-error", message: error.message });
+	}
+
+	formatWatchInfo(watchPaths: string[]): void {
+		this.emit({ type: "watch-paths", paths: watchPaths });
+	}
+
+	formatWatchUpdate(added: string[], removed: string[]): void {
+		this.emit({ type: "watch-update", added, removed });
+	}
+
+	formatWatcherError(error: Error): void {
+		this.emit({ type: "watcher-error", message: error.message });
+	}
+
+	formatControlServer(url: string): void {
+		this.emit({ type: "control-server", url });
+	}
+
+	formatExitMessage(stats?: DeploymentStats): void {
+		this.emit({ type: "exit", deployments: this.deploymentCount, stats });
+	}
+
+	formatStats(stats: DeploymentStats): void {
+		this.emit({ type: "stats", stats: { ...stats } });
+	}
+
+	formatHelp(): void {
+		// Keyboard shortcuts are for people reading the text output
+	}
+}
+
+/**
+ * Writes each event as one line of JSON (NDJSON) to stdout
+ */
+export function createJsonFormatter(): EventFormatter {
+	return new EventFormatter((event) => {
+		process.stdout.write(`${JSON.stringify(event)}\n`);
+	});
+}
@@ -0,0 +1,70 @@
+/**
+ * YOLO session events - the typed form of everything the text formatter
+ * prints, for `--output=json` and other machine consumers
+ */
+
+import type { FileChange } from "../types";
+import type { DeployMode } from "./deploy";
+import type { DeploymentStats } from "./output-formatter";
+import type { VersionSplit } from "./promote";
+import type { SmokeResult } from "./smoke";
+
+export interface SessionInfo {
+	worker: string;
+	env?: string;
+	mode: DeployMode;
+}
+
+/**
+ * Keyboard shortcuts that trigger an action, as opposed to just printing
+ */
+export type ShortcutAction = "redeploy" | "rollback" | "promote" | "abort-rollout";
+
+/**
+ * Every event carries its type and an ISO timestamp
+ */
+type Event<Type extends string, Fields = object> = { type: Type; timestamp: string } & Fields;
+
+export type YoloEvent =
+	| Event<"session-start", SessionInfo>
+	| Event<"watch-paths", { paths: string[] }>
+	| Event<"watch-update", { added: string[]; removed: string[] }>
+	| Event<"watcher-error", { message: string }>
+	| Event<"control-server", { url: string }>
+	| Event<"file-change", { path: string; change: FileChange["type"] }>
+	| Event<"shortcut", { action: ShortcutAction }>
+	| Event<"paused">
+	| Event<"resumed", { changes: FileChange[] }>
+	| Event<"config-reload", { changedKeys: string[] }>
+	| Event<"config-error", { message: string }>
+	| Event<"deploy-start", { deployment: number; changes: FileChange[] }>
+	| Event<
+			"deploy-success",
+			{ deployment: number; versionId?: string; workerUrl?: string; previewUrl?: string; durationMs: number }
+	  >
+	| Event<"deploy-error", { deployment: number; message: string; exitCode?: number | null; output?: string }>
+	| Event<"deploy-skipped", { deployment: number; durationMs: number }>
+	| Event<"deploy-superseded", { deployment: number; durationMs: number }>
+	| Event<
+			"deploy-blocked",
+			{ deployment: number; check: string; command: string; exitCode: number | null; output: string; durationMs: number }
+	  >
+	| Event<"smoke-results", { results: SmokeResult[] }>
+	| Event<"smoke-skipped", { reason: string }>
+	| Event<"rollback", { versionId: string; error?: string; output?: string }>
+	| Event<"rollback-unavailable", { reason: string; output?: string }>
+	| Event<"promote", { versionId: string; error?: string; output?: string }>
+	| Event<"promote-unavailable", { reason: string }>
+	| Event<"rollout-step", { split: VersionSplit[] }>
+	| Event<"rollout-wait", { intervalMs: number; nextPercentage: number }>
+	| Event<"rollout-skipped", { reason: string }>
+	| Event<"rollout-complete", { versionId: string }>
+	| Event<
+			"rollout-aborted",
+			{ reason: string; previousVersionId: string; revertError?: string; output?: string; revertOutput?: string }
+	  >
+	| Event<"history-error", { versionId: string; message: string }>
+	| Event<"stats", { stats: DeploymentStats }>
+	| Event<"exit", { deployments: number; stats?: DeploymentStats }>;
+
+export type YoloEventType = YoloEvent["type"];
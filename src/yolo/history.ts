@@ -0,0 +1,71 @@
+/**
+ * Version history - the chain of versions YOLO mode deployed for a worker,
+ * used to roll back to the previous or n-th previous version. Each project,
+ * environment and account has a chain of its own.
+ */
+
+import path from "node:path";
+import { getProjectKey, getYoloVersions, setYoloVersions, type HistoryTarget, type YoloVersion } from "../cache";
+import type { DeployParams } from "./deploy";
+import { rollback, type RollbackTarget } from "./rollback";
+
+/**
+ * The history a deployment with these parameters goes in
+ */
+export function toHistoryTarget(
+	params: Pick<DeployParams, "config" | "projectRoot" | "name" | "env" | "accountId">
+): HistoryTarget {
+	const configPath = params.config.configPath ?? path.join(params.projectRoot || process.cwd(), "wrangler.toml");
+	return {
+		projectKey: getProjectKey(configPath, params.name),
+		name: params.name,
+		env: params.env,
+		accountId: params.accountId,
+	};
+}
+
+/**
+ * Records a version that deployed successfully
+ */
+export function recordVersion(target: HistoryTarget, version: YoloVersion): void {
+	const versions = getYoloVersions(target).filter((entry) => entry.versionId !== version.versionId);
+	setYoloVersions(target, [...versions, version]);
+}
+
+/**
+ * The version that is live, as far as YOLO mode knows
+ */
+export function getCurrentVersion(target: HistoryTarget): YoloVersion | undefined {
+	return getYoloVersions(target).at(-1);
+}
+
+/**
+ * Rolls back `steps` versions (1 = the previous version). The versions that
+ * are rolled back over are dropped from the history, so rolling back again
+ * goes further back, like undo. Resolves to the version that is live now.
+ */
+export async function rollbackVersions(target: RollbackTarget & HistoryTarget, steps = 1): Promise<YoloVersion> {
+	if (!Number.isInteger(steps) || steps < 1) {
+		throw new Error(`Cannot roll back ${steps} versions - use a whole number of at least 1`);
+	}
+
+	const versions = getYoloVersions(target);
+	const version = versions[versions.length - 1 - steps];
+	if (!version) {
+		const available = Math.max(versions.length - 1, 0);
+		throw new Error(
+			available === 0
+				? `No earlier YOLO version of ${target.name} recorded`
+				: `Only ${available} earlier YOLO version${available === 1 ? "" : "s"} of ${target.name} recorded`
+		);
+	}
+
+	await rollback(
+		{ ...target, accountId: version.accountId ?? target.accountId },
+		version.versionId,
+		`YOLO: rollback ${steps} version${steps === 1 ? "" : "s"}`
+	);
+
+	setYoloVersions(target, versions.slice(0, versions.length - steps));
+	return version;
+}
@@ -1,54 +1,182 @@
+import path from "node:path";
 import chalk from "chalk";
+import type { FileChange } from "../types";
+import { constructVersionUrl } from "../utils/urls";
+import { formatChangeList } from "./change-set";
+import type { CheckFailure } from "./checks";
+import { DeployError, isUploadMode, type DeployMode } from "./deploy";
+import type { SessionInfo, ShortcutAction } from "./events";
+import type { VersionSplit } from "./promote";
+import type { SmokeResult } from "./smoke";
 
 export interface DeployResult {
 	success: boolean;
 	versionId?: string;
 	workerUrl?: string;
+	/** URL of the version itself, when wrangler printed it */
+	previewUrl?: string;
 	targets?: Array<{ name: string; url?: string }>;
 	error?: Error;
 	duration: number;
 }
 
-export interface FileChange {
-	path: string;
-	type: "change" | "add" | "unlink";
-}
+export type { FileChange };
 
 export interface DeploymentStats {
 	successful: number;
 	failed: number;
+	/** Deploys skipped because the build output was unchanged */
+	skipped: number;
+	/** Deploys aborted because a newer change arrived while they were building */
+	superseded: number;
+	/** Deploys stopped by a failing pre-deploy check */
+	blocked: number;
+	/** Deploys that failed their smoke tests and were rolled back */
+	rolledBack: number;
+	/** Preview versions promoted to all traffic */
+	promoted: number;
+	/** Gradual rollouts that were aborted and reverted */
+	rolloutsAborted: number;
 	totalTime: number;
 	lastDeployTime?: Date;
 }
 
-export class YoloOutputFormatter {
+/**
+ * Everything a YOLO session reports goes through a formatter, so the same
+ * session can print text for people or events for tools
+ */
+export interface YoloFormatter {
+	formatInitialDeploy(session: SessionInfo): void;
+	formatClear(): void;
+	formatShortcut(action: ShortcutAction): void;
+	formatPaused(): void;
+	formatResumed(changes: FileChange[]): void;
+	formatFileChange(change: FileChange): void;
+	formatDeployStart(changes?: FileChange[]): void;
+	formatDeploySuccess(result: DeployResult): void;
+	formatNoEffectiveChange(duration: number): void;
+	formatDeploySuperseded(duration: number): void;
+	formatDeployBlocked(failure: CheckFailure): void;
+	formatDeployError(error: Error): void;
+	formatSmokeResults(results: SmokeResult[]): void;
+	formatSmokeSkipped(reason: string): void;
+	formatRollback(versionId: string, error?: Error): void;
+	formatRollbackUnavailable(reason: string, error?: Error): void;
+	formatPromoteHint(): void;
+	formatPromote(versionId: string, error?: Error): void;
+	formatPromoteUnavailable(reason: string): void;
+	formatRolloutStep(split: VersionSplit[]): void;
+	formatRolloutWait(intervalMs: number, nextPercentage: number): void;
+	formatRolloutSkipped(reason: string): void;
+	formatRolloutComplete(versionId: string): void;
+	formatRolloutAborted(reason: string, previousVersionId: string, revertError?: Error, stepError?: Error): void;
+	/** A version went live but couldn't be added to the rollback history */
+	formatHistoryError(versionId: string, error: Error): void;
+	formatConfigReload(changedKeys: string[]): void;
+	formatConfigError(error: Error): void;
+	formatWatchInfo(watchPaths: string[]): void;
+	formatWatchUpdate(added: string[], removed: string[]): void;
+	formatWatcherError(error: Error): void;
+	formatControlServer(url: string): void;
+	formatExitMessage(stats?: DeploymentStats): void;
+	formatStats(stats: DeploymentStats): void;
+	formatHelp(): void;
+}
+
+/**
+ * Reports to several formatters at once, in order
+ */
+export function combineFormatters(formatters: YoloFormatter[]): YoloFormatter {
+	return new Proxy({} as YoloFormatter, {
+		get: (_target, method: keyof YoloFormatter) => (...args: unknown[]) => {
+			for (const formatter of formatters) {
+				(formatter[method] as (...args: unknown[]) => void).apply(formatter, args);
+			}
+		},
+	});
+}
+
+const SHORTCUT_MESSAGES: Record<ShortcutAction, string> = {
+	redeploy: "⚡ Manual deployment triggered...",
+	rollback: "↺ Rolling back to the previous version...",
+	promote: "⇪ Promoting the latest preview version...",
+	"abort-rollout": "↺ Aborting the rollout...",
+};
+
+export class YoloOutputFormatter implements YoloFormatter {
 	private deploymentCount = 0;
 	private verbose: boolean;
+	private mode: DeployMode;
+	private paused = false;
 
-	constructor(verbose = false) {
+	constructor(verbose = false, mode: DeployMode = "deploy") {
 		this.verbose = verbose;
+		this.mode = mode;
+	}
+
+	formatInitialDeploy(_session?: SessionInfo): void {
+		this.formatBanner();
+		console.log("⚡ Running initial deployment...\n");
+	}
+
+	formatClear(): void {
+		console.clear();
+		this.formatBanner();
+		if (this.paused) {
+			console.log(chalk.yellow("⏸  Deploys are paused - press 'p' to resume\n"));
+		}
+	}
+
+	formatShortcut(action: ShortcutAction): void {
+		console.log(`\n${SHORTCUT_MESSAGES[action]}\n`);
+	}
+
+	formatPaused(): void {
+		this.paused = true;
+		console.log(chalk.yellow("\n⏸  Deploys paused - changes are collected until you press 'p' again\n"));
 	}
 
-	formatInitialDeploy(): void {
-		console.log(chalk.cyan("\n🚀 YOLO Mode activated - watching for changes..."));
+	formatResumed(changes: FileChange[]): void {
+		this.paused = false;
+		if (changes.length === 0) {
+			console.log(chalk.cyan("\n▶ Deploys resumed - nothing changed while paused\n"));
+			return;
+		}
+
+		const files = changes.length === 1 ? "1 file" : `${changes.length} files`;
+		console.log(chalk.cyan(`\n▶ Deploys resumed - deploying ${files} changed while paused:`));
+		for (const change of changes) {
+			this.formatFileChange(change);
+		}
+		console.log();
+	}
+
+	private formatBanner(): void {
+		if (this.mode === "preview") {
+			console.log(chalk.cyan("\n👀 YOLO Preview Mode activated - uploading versions without deploying them..."));
+		} else if (this.mode === "gradual") {
+			console.log(chalk.cyan("\n🐢 YOLO Gradual Mode activated - rolling out each change in steps..."));
+		} else {
+			console.log(chalk.cyan("\n🚀 YOLO Mode activated - watching for changes..."));
+		}
 		console.log(chalk.dim("   Press 'h' for help, 'q' to quit\n"));
 	}
 
 	formatFileChange(change: FileChange): void {
 		const icon = change.type === "add" ? "+" : change.type === "unlink" ? "-" : "~";
 		const color = change.type === "add" ? chalk.green : change.type === "unlink" ? chalk.red : chalk.yellow;
-		console.log(color(`${icon} ${change.path}`));
+		console.log(color(`${icon} ${change.path}`) + (this.paused ? chalk.gray(" (held - paused)") : ""));
 	}
 
-	formatDeployStart(change?: FileChange): void {
+	formatDeployStart(changes: FileChange[] = []): void {
 		this.deploymentCount++;
 		const timestamp = new Date().toLocaleTimeString();
 
 		if (!this.verbose) {
-			if (change) {
-				this.formatFileChange(change);
-			}
 			console.log(chalk.gray(`[${timestamp}] Deployment #${this.deploymentCount} starting...`));
+			if (changes.length > 0) {
+				console.log(chalk.dim(`  └─ Changes: ${formatChangeList(changes)}`));
+			}
 		}
 	}
 
@@ -64,6 +192,21 @@ export class YoloOutputFormatter {
 			if (result.versionId) {
 				console.log(chalk.dim(`  Version: ${result.versionId}`));
 			}
+		} else if (isUploadMode(this.mode)) {
+			// Production traffic is untouched so far, so only the version URL matters
+			const uploaded = this.mode === "preview" ? "uploaded as a preview" : "uploaded";
+			console.log(
+				chalk.green(`[${timestamp}] ✓ Deployment #${this.deploymentCount} ${uploaded}`) +
+				chalk.gray(` (${result.duration}ms)`)
+			);
+
+			const mainUrl = result.workerUrl || result.targets?.[0]?.url;
+			const versionUrl =
+				result.previewUrl ?? (mainUrl && result.versionId ? constructVersionUrl(mainUrl, result.versionId) : null);
+			console.log(chalk.dim(`  └─ Preview: ${versionUrl ?? "N/A"}`));
+			if (result.versionId) {
+				console.log(chalk.dim(`  └─ Version: ${result.versionId}`));
+			}
 		} else {
 			// Condensed output with both URLs
 			const mainUrl = result.workerUrl || result.targets?.[0]?.url || "N/A";
@@ -79,7 +222,7 @@ export class YoloOutputFormatter {
 			// Show version-specific preview URL if versionId is available
 			if (result.versionId) {
 				// Extract worker name from URL to construct version URL
-				const versionUrl = this.constructVersionUrl(mainUrl, result.versionId);
+				const versionUrl = constructVersionUrl(mainUrl, result.versionId);
 				if (versionUrl) {
 					console.log(chalk.dim(`  └─ Preview: ${versionUrl}`));
 				}
@@ -89,27 +232,138 @@ export class YoloOutputFormatter {
 		console.log(); // Empty line for readability
 	}
 
-	/**
-	 * Constructs a version-specific preview URL from the main worker URL and version ID
-	 */
-	private constructVersionUrl(mainUrl: string, versionId: string): string | null {
-		try {
-			const url = new URL(mainUrl);
-			const hostname = url.hostname;
-
-			// Format: worker-name.account.workers.dev -> shortId-worker-name.account.workers.dev
-			const parts = hostname.split('.');
-			if (parts.length >= 3 && parts[parts.length - 2] === 'workers') {
-				// Get first segment of version ID (before first dash)
-				const shortId = versionId.split('-')[0];
-				const workerName = parts[0];
-				const accountOrDomain = parts.slice(1).join('.');
-				return `https://${shortId}-${workerName}.${accountOrDomain}${url.pathname}`;
+	formatNoEffectiveChange(duration: number): void {
+		const timestamp = new Date().toLocaleTimeString();
+		console.log(
+			chalk.gray(`[${timestamp}] = Deployment #${this.deploymentCount} skipped - no effective change`) +
+			chalk.gray(` (${duration}ms)`)
+		);
+		console.log(); // Empty line for readability
+	}
+
+	formatDeploySuperseded(duration: number): void {
+		const timestamp = new Date().toLocaleTimeString();
+		console.log(
+			chalk.yellow(`[${timestamp}] ↷ Deployment #${this.deploymentCount} superseded by a newer change`) +
+			chalk.gray(` (${duration}ms)`)
+		);
+		console.log(); // Empty line for readability
+	}
+
+	formatDeployBlocked(failure: CheckFailure): void {
+		const timestamp = new Date().toLocaleTimeString();
+		console.log(
+			chalk.magenta(`[${timestamp}] ⛔ Deployment #${this.deploymentCount} blocked by check: ${failure.name}`) +
+			chalk.gray(` (exit code ${failure.exitCode ?? "unknown"}, ${failure.duration}ms)`)
+		);
+		if (failure.output) {
+			console.log(failure.output);
+		}
+		console.log(); // Empty line for readability
+	}
+
+	formatSmokeResults(results: SmokeResult[]): void {
+		for (const result of results) {
+			if (result.passed) {
+				console.log(chalk.dim(`  └─ Smoke ✓ ${result.check.path} ${result.status} (${result.latencyMs}ms)`));
+			} else {
+				console.log(chalk.red(`  └─ Smoke ✗ ${result.check.path}: ${result.reason}`));
 			}
+		}
+		console.log(); // Empty line for readability
+	}
+
+	formatSmokeSkipped(reason: string): void {
+		console.log(chalk.yellow(`  └─ Smoke tests skipped: ${reason}`));
+		console.log(); // Empty line for readability
+	}
+
+	formatRollback(versionId: string, error?: Error): void {
+		const timestamp = new Date().toLocaleTimeString();
+		if (error) {
+			this.printWranglerOutput(error);
+			console.log(chalk.red(`[${timestamp}] ✗ Rollback to ${versionId} failed: ${error.message}`));
+		} else {
+			console.log(chalk.yellow(`[${timestamp}] ↺ Rolled back to version ${versionId}`));
+		}
+		console.log(); // Empty line for readability
+	}
+
+	formatPromoteHint(): void {
+		console.log(chalk.dim("  └─ Press 'd' to deploy this version to all traffic"));
+		console.log(); // Empty line for readability
+	}
 
-			return null;
-		} catch {
-			return null;
+	formatPromote(versionId: string, error?: Error): void {
+		const timestamp = new Date().toLocaleTimeString();
+		if (error) {
+			this.printWranglerOutput(error);
+			console.log(chalk.red(`[${timestamp}] ✗ Promoting ${versionId} failed: ${error.message}`));
+		} else {
+			console.log(chalk.green(`[${timestamp}] ⇪ Version ${versionId} now serves 100% of traffic`));
+		}
+		console.log(); // Empty line for readability
+	}
+
+	formatPromoteUnavailable(reason: string): void {
+		const timestamp = new Date().toLocaleTimeString();
+		console.log(chalk.red(`[${timestamp}] ✗ Cannot promote: ${reason}`));
+		console.log(); // Empty line for readability
+	}
+
+	formatRolloutStep(split: VersionSplit[]): void {
+		const shares = split.map((entry) => `${entry.versionId.split("-")[0]} ${entry.percentage}%`).join(" | ");
+		console.log(chalk.cyan(`  └─ Rollout ${split[0].percentage}%: ${shares}`));
+	}
+
+	formatRolloutWait(intervalMs: number, nextPercentage: number): void {
+		console.log(
+			chalk.dim(`  └─ Waiting ${Math.round(intervalMs / 1000)}s before ${nextPercentage}% - press any key to abort`)
+		);
+	}
+
+	formatRolloutSkipped(reason: string): void {
+		console.log(chalk.yellow(`  └─ Rolling out straight to 100%: ${reason}`));
+	}
+
+	formatRolloutComplete(versionId: string): void {
+		const timestamp = new Date().toLocaleTimeString();
+		console.log(chalk.green(`[${timestamp}] ✓ Rollout complete - ${versionId} serves 100% of traffic`));
+		console.log(); // Empty line for readability
+	}
+
+	formatRolloutAborted(reason: string, previousVersionId: string, revertError?: Error, stepError?: Error): void {
+		const timestamp = new Date().toLocaleTimeString();
+		this.printWranglerOutput(stepError);
+		this.printWranglerOutput(revertError);
+		console.log(chalk.yellow(`[${timestamp}] ↺ Rollout aborted (${reason})`));
+		if (revertError) {
+			console.log(chalk.red(`  └─ Reverting to ${previousVersionId} failed: ${revertError.message}`));
+		} else {
+			console.log(chalk.dim(`  └─ ${previousVersionId} serves 100% of traffic again`));
+		}
+		console.log(); // Empty line for readability
+	}
+
+	formatHistoryError(versionId: string, error: Error): void {
+		console.warn(chalk.yellow(`⚠️  ${versionId} is live, but could not be added to the rollback history: ${error.message}`));
+		console.log(); // Empty line for readability
+	}
+
+	formatRollbackUnavailable(reason: string, error?: Error): void {
+		const timestamp = new Date().toLocaleTimeString();
+		this.printWranglerOutput(error);
+		console.log(chalk.red(`[${timestamp}] ✗ Cannot roll back: ${reason}`));
+		console.log(); // Empty line for readability
+	}
+
+	/**
+	 * Shows what wrangler printed before failing. In verbose mode it already
+	 * went straight to the terminal, so there is nothing captured to show.
+	 */
+	private printWranglerOutput(error: Error | undefined): void {
+		if (error instanceof DeployError && error.output) {
+			console.error(error.output);
 		}
 	}
 
@@ -120,8 +374,10 @@ export class YoloOutputFormatter {
 			console.log(chalk.red(`\n✗ Deployment #${this.deploymentCount} failed:`));
 			console.error(error);
 		} else {
-			// Error details are already printed by deploy function
-			// Just show a simple failure message
+			// Show what wrangler printed, then a simple failure message
+			if (error instanceof DeployError && error.output) {
+				console.error(error.output);
+			}
 			console.log(
 				chalk.red(`[${timestamp}] ✗ Deployment #${this.deploymentCount} failed`)
 			);
@@ -129,17 +385,52 @@ export class YoloOutputFormatter {
 		console.log(); // Empty line for readability
 	}
 
+	formatConfigReload(changedKeys: string[]): void {
+		if (changedKeys.length === 0) {
+			console.log(chalk.cyan("⚙  Config reloaded (no effective changes)"));
+		} else {
+			console.log(chalk.cyan(`⚙  Config reloaded - changed: ${changedKeys.join(", ")}`));
+		}
+	}
+
+	formatConfigError(error: Error): void {
+		const timestamp = new Date().toLocaleTimeString();
+		console.log(chalk.red(`[${timestamp}] ✗ Config change not applied - keeping the last good config`));
+		console.log(chalk.dim(`  └─ ${error.message}`));
+		console.log(); // Empty line for readability
+	}
+
 	formatWatchInfo(watchPaths: string[]): void {
 		console.log(chalk.gray("Watching:"));
-		for (const path of watchPaths) {
-			console.log(chalk.gray(`  - ${path}`));
+		for (const watchPath of watchPaths) {
+			console.log(chalk.gray(`  - ${watchPath}`));
 		}
 		console.log();
 	}
 
+	formatWatchUpdate(added: string[], removed: string[]): void {
+		const relative = (watchPath: string) => path.relative(process.cwd(), watchPath) || watchPath;
+		for (const watchPath of added) {
+			console.log(chalk.gray(`  + watching ${relative(watchPath)}`));
+		}
+		for (const watchPath of removed) {
+			console.log(chalk.gray(`  - no longer watching ${relative(watchPath)}`));
+		}
+	}
+
+	formatWatcherError(error: Error): void {
+		console.error(chalk.red("File watcher error:"), error);
+	}
+
+	formatControlServer(url: string): void {
+		console.log(chalk.gray(`Control server: ${url} (GET /status, /events)`));
+		console.log();
+	}
+
 	formatExitMessage(stats?: DeploymentStats): void {
 		console.log(chalk.cyan(`\n👋 YOLO Mode stopped after ${this.deploymentCount} deployments`));
-		if (stats && (stats.successful > 0 || stats.failed > 0)) {
+		const anyDeploys = stats && stats.successful + stats.failed + stats.skipped + stats.superseded + stats.blocked > 0;
+		if (stats && anyDeploys) {
 			this.formatStats(stats);
 		}
 		console.log();
@@ -151,7 +442,22 @@ export class YoloOutputFormatter {
 		const avgTime = total > 0 ? (stats.totalTime / total / 1000).toFixed(1) : "0.0";
 
 		console.log(chalk.cyan("\n📊 Session Statistics:"));
-		console.log(chalk.green(`   ✓ ${stats.successful} successful`) + chalk.red(`   ✗ ${stats.failed} failed`));
+		console.log(
+			chalk.green(`   ✓ ${stats.successful} successful`) +
+			chalk.red(`   ✗ ${stats.failed} failed`) +
+			chalk.gray(`   = ${stats.skipped} unchanged`) +
+			chalk.yellow(`   ↷ ${stats.superseded} superseded`) +
+			chalk.magenta(`   ⛔ ${stats.blocked} blocked`)
+		);
+		if (stats.rolledBack > 0) {
+			console.log(chalk.yellow(`   ↺ ${stats.rolledBack} rolled back after failed smoke tests`));
+		}
+		if (stats.promoted > 0) {
+			console.log(chalk.green(`   ⇪ ${stats.promoted} preview versions promoted`));
+		}
+		if (stats.rolloutsAborted > 0) {
+			console.log(chalk.yellow(`   ↺ ${stats.rolloutsAborted} rollouts aborted`));
+		}
 		console.log(chalk.gray(`   📈 Success rate: ${successRate}%`));
 		console.log(chalk.gray(`   ⚡ Average time: ${avgTime}s`));
 
@@ -165,7 +471,19 @@ export class YoloOutputFormatter {
 
 	formatHelp(): void {
 		console.log(chalk.cyan("\n⌨️  Keyboard Shortcuts:"));
+		if (this.paused) {
+			console.log(chalk.yellow("   (deploys are paused)"));
+		}
 		console.log(chalk.gray("   r       - Manual redeploy"));
+		const pauseHelp = this.paused ? "Resume deploys and deploy the held changes" : "Pause deploys, keep collecting changes";
+		console.log(chalk.gray(`   p       - ${pauseHelp}`));
+		if (this.mode === "preview") {
+			console.log(chalk.gray("   d       - Deploy the latest preview version to all traffic"));
+		}
+		if (this.mode === "gradual") {
+			console.log(chalk.gray("   any key - Abort a rollout in progress"));
+		}
+		console.log(chalk.gray("   b       - Roll back to the previous version"));
 		console.log(chalk.gray("   c       - Clear screen"));
 		console.log(chalk.gray("   s       - Show statistics"));
 		console.log(chalk.gray("   h or ?  - Show this help"));
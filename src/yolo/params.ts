@@ -0,0 +1,205 @@
+/**
+ * Maps wrangler config and CLI flags onto DeployParams
+ */
+
+import path from "node:path";
+import type { ParsedArgs } from "../args";
+import type { AssetsOptions, Config, LegacyAssetPaths } from "../types";
+import type { DeployParams } from "./deploy";
+
+/**
+ * The DeployParams fields that can be derived from the wrangler config alone
+ */
+export type ConfigDeployFields = Pick<
+	DeployParams,
+	| "rules"
+	| "compatibilityDate"
+	| "compatibilityFlags"
+	| "legacyAssetPaths"
+	| "assetsOptions"
+	| "vars"
+	| "defines"
+	| "alias"
+	| "triggers"
+	| "routes"
+	| "domains"
+	| "useServiceEnvironments"
+	| "jsxFactory"
+	| "jsxFragment"
+	| "tsconfig"
+	| "isWorkersSite"
+	| "minify"
+	| "noBundle"
+	| "keepVars"
+	| "logpush"
+	| "uploadSourceMaps"
+>;
+
+interface RawRoute {
+	pattern: string;
+	custom_domain?: boolean;
+	zone_id?: string;
+	zone_name?: string;
+}
+
+interface RawSite {
+	bucket: string;
+	include?: string[];
+	exclude?: string[];
+}
+
+/**
+ * Directory that relative paths in the config file are resolved against
+ */
+function getConfigDir(config: Config, projectRoot: string | undefined): string {
+	if (config.configPath) {
+		return path.dirname(path.resolve(projectRoot || process.cwd(), config.configPath));
+	}
+	return projectRoot || process.cwd();
+}
+
+/**
+ * Splits `route`/`routes` into plain route patterns and custom domains
+ */
+function mapRoutes(config: Config): { routes: string[] | undefined; domains: string[] | undefined } {
+	const rawRoutes = (config.routes ?? (config.route !== undefined ? [config.route] : undefined)) as
+		| Array<string | RawRoute>
+		| undefined;
+	if (!rawRoutes) {
+		return { routes: undefined, domains: undefined };
+	}
+
+	const routes: string[] = [];
+	const domains: string[] = [];
+	for (const route of rawRoutes) {
+		if (typeof route === "string") {
+			routes.push(route);
+		} else if (route.custom_domain) {
+			domains.push(route.pattern);
+		} else {
+			routes.push(route.pattern);
+		}
+	}
+
+	return {
+		routes: routes.length > 0 ? routes : undefined,
+		domains: domains.length > 0 ? domains : undefined,
+	};
+}
+
+/**
+ * Derives DeployParams fields from a (resolved) wrangler config. Paths are made
+ * absolute relative to the config file, as wrangler does.
+ */
+export function configToDeployFields(config: Config, projectRoot: string | undefined): ConfigDeployFields {
+	const configDir = getConfigDir(config, projectRoot);
+
+	const assets = config.assets as AssetsOptions | undefined;
+	const assetsOptions: AssetsOptions | undefined = assets?.directory
+		? { ...assets, directory: path.resolve(configDir, assets.directory) }
+		: undefined;
+
+	const site = config.site as RawSite | undefined;
+	const legacyAssetPaths: LegacyAssetPaths | undefined = site?.bucket
+		? {
+				baseDirectory: path.resolve(configDir, site.bucket),
+				assetDirectory: "",
+				includePatterns: site.include ?? [],
+				excludePatterns: site.exclude ?? [],
+		  }
+		: undefined;
+
+	const triggers = config.triggers as { crons?: string[] } | undefined;
+
+	return {
+		rules: config.rules,
+		compatibilityDate: config.compatibility_date,
+		compatibilityFlags: config.compatibility_flags,
+		legacyAssetPaths,
+		assetsOptions,
+		vars: config.vars,
+		defines: config.define,
+		alias: config.alias as Record<string, string> | undefined,
+		triggers: triggers?.crons,
+		...mapRoutes(config),
+		useServiceEnvironments: config.legacy_env === false ? true : undefined,
+		jsxFactory: config.jsx_factory as string | undefined,
+		jsxFragment: config.jsx_fragment as string | undefined,
+		tsconfig: config.tsconfig as string | undefined,
+		isWorkersSite: legacyAssetPaths !== undefined,
+		minify: config.minify as boolean | undefined,
+		noBundle: config.no_bundle as boolean | undefined,
+		keepVars: config.keep_vars as boolean | undefined,
+		logpush: config.logpush as boolean | undefined,
+		uploadSourceMaps: config.upload_source_maps as boolean | undefined,
+	};
+}
+
+export interface DeployTarget {
+	projectRoot: string;
+	entryPath: string;
+	workerName: string;
+	accountId: string | undefined;
+}
+
+/**
+ * Builds the full DeployParams for a YOLO session. Values from the config are
+ * used as defaults and CLI flags take precedence, matching wrangler.
+ */
+export function buildDeployParams(config: Config, parsed: ParsedArgs, target: DeployTarget): DeployParams {
+	const fromConfig = configToDeployFields(config, target.projectRoot);
+	const resolvePath = (value: string) => path.resolve(target.projectRoot, value);
+
+	const legacyAssetPaths: LegacyAssetPaths | undefined = parsed.site
+		? {
+				baseDirectory: resolvePath(parsed.site),
+				assetDirectory: "",
+				includePatterns: parsed.siteInclude ?? fromConfig.legacyAssetPaths?.includePatterns ?? [],
+				excludePatterns: parsed.siteExclude ?? fromConfig.legacyAssetPaths?.excludePatterns ?? [],
+		  }
+		: fromConfig.legacyAssetPaths;
+
+	return {
+		...fromConfig,
+		config,
+		accountId: target.accountId,
+		entry: {
+			file: target.entryPath,
+			format: "modules",
+		},
+		name: target.workerName,
+		env: parsed.env,
+		compatibilityDate: parsed.compatibilityDate ?? fromConfig.compatibilityDate,
+		compatibilityFlags: parsed.compatibilityFlags ?? fromConfig.compatibilityFlags,
+		legacyAssetPaths,
+		assetsOptions: parsed.assets ? { directory: resolvePath(parsed.assets) } : fromConfig.assetsOptions,
+		vars: parsed.vars ? { ...fromConfig.vars, ...parsed.vars } : fromConfig.vars,
+		defines: parsed.defines ? { ...fromConfig.defines, ...parsed.defines } : fromConfig.defines,
+		alias: parsed.alias ? { ...fromConfig.alias, ...parsed.alias } : fromConfig.alias,
+		triggers: parsed.triggers ?? fromConfig.triggers,
+		routes: parsed.routes ?? (parsed.domains ? undefined : fromConfig.routes),
+		domains: parsed.domains ?? (parsed.routes ? undefined : fromConfig.domains),
+		jsxFactory: parsed.jsxFactory ?? fromConfig.jsxFactory,
+		jsxFragment: parsed.jsxFragment ?? fromConfig.jsxFragment,
+		tsconfig: parsed.tsconfig ?? fromConfig.tsconfig,
+		isWorkersSite: legacyAssetPaths !== undefined,
+		minify: parsed.minify ?? fromConfig.minify,
+		outDir: parsed.outDir,
+		outFile: parsed.outFile,
+		dryRun: parsed.dryRun,
+		noBundle: parsed.noBundle ?? fromConfig.noBundle,
+		keepVars: parsed.keepVars ?? fromConfig.keepVars,
+		logpush: parsed.logpush ?? fromConfig.logpush,
+		uploadSourceMaps: parsed.uploadSourceMaps ?? fromConfig.uploadSourceMaps,
+		oldAssetTtl: parsed.oldAssetTtl,
+		projectRoot: target.projectRoot,
+		dispatchNamespace: parsed.dispatchNamespace,
+		experimentalAutoCreate: parsed.experimentalAutoCreate ?? false,
+		metafile: parsed.metafile,
+		containersRollout: parsed.containersRollout,
+		strict: parsed.strict,
+		verbose: parsed.verbose,
+		passthroughArgs: parsed.remainingArgs.length > 0 ? parsed.remainingArgs : undefined,
+		mode: parsed.yolo === "preview" || parsed.yolo === "gradual" ? parsed.yolo : "deploy",
+	};
+}
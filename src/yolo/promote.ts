@@ -0,0 +1,80 @@
+/**
+ * Promote wrapper - invokes wrangler versions deploy command
+ */
+
+import type { ChildProcess } from "node:child_process";
+import { DeployError } from "./deploy";
+import type { RollbackTarget } from "./rollback";
+import { spawnWrangler } from "../wrangler-runner";
+
+/**
+ * A version and the share of traffic it should receive
+ */
+export interface VersionSplit {
+	versionId: string;
+	percentage: number;
+}
+
+/**
+ * Sends all traffic to an uploaded version with `wrangler versions deploy`
+ */
+export async function promote(params: RollbackTarget, versionId: string, message: string): Promise<void> {
+	return deployVersions(params, [{ versionId, percentage: 100 }], message);
+}
+
+/**
+ * Splits traffic between uploaded versions with `wrangler versions deploy`.
+ * The percentages must add up to 100.
+ */
+export async function deployVersions(params: RollbackTarget, split: VersionSplit[], message: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const versionSpecs = split.map((entry) => `${entry.versionId}@${entry.percentage}%`);
+		const args = ["versions", "deploy", ...versionSpecs, "--name", params.name, "--message", message, "--yes"];
+		if (params.env) {
+			args.push("--env", params.env);
+		}
+
+		// Build environment variables
+		const env = { ...process.env };
+		if (params.accountId) {
+			env.CLOUDFLARE_ACCOUNT_ID = params.accountId;
+		}
+
+		let wrangler: ChildProcess;
+		try {
+			wrangler = spawnWrangler(args, {
+				stdio: params.verbose ? "inherit" : "pipe",
+				cwd: params.projectRoot || process.cwd(),
+				env,
+			});
+		} catch (error) {
+			reject(error);
+			return;
+		}
+
+		let output = "";
+
+		if (!params.verbose && wrangler.stdout && wrangler.stderr) {
+			wrangler.stdout.on("data", (data) => {
+				output += data.toString();
+			});
+
+			wrangler.stderr.on("data", (data) => {
+				output += data.toString();
+			});
+		}
+
+		wrangler.on("error", (error) => {
+			reject(error);
+		});
+
+		wrangler.on("exit", (code) => {
+			if (code === 0) {
+				resolve();
+			} else {
+				// The formatter decides how to show wrangler's output
+				reject(new DeployError(`wrangler versions deploy failed with exit code ${code}`, code, output.trim()));
+			}
+		});
+	});
+}
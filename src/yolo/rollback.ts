@@ -0,0 +1,67 @@
+/**
+ * Rollback wrapper - invokes wrangler rollback command
+ */
+
+import type { ChildProcess } from "node:child_process";
+import { DeployError, type DeployParams } from "./deploy";
+import { spawnWrangler } from "../wrangler-runner";
+
+/**
+ * The deploy settings a rollback needs
+ */
+export type RollbackTarget = Pick<DeployParams, "name" | "env" | "accountId" | "projectRoot" | "verbose">;
+
+/**
+ * Rolls the worker back to an earlier version with `wrangler rollback`
+ */
+export async function rollback(params: RollbackTarget, versionId: string, message: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const args = ["rollback", versionId, "--name", params.name, "--message", message, "--yes"];
+		if (params.env) {
+			args.push("--env", params.env);
+		}
+
+		// Build environment variables
+		const env = { ...process.env };
+		if (params.accountId) {
+			env.CLOUDFLARE_ACCOUNT_ID = params.accountId;
+		}
+
+		let wrangler: ChildProcess;
+		try {
+			wrangler = spawnWrangler(args, {
+				stdio: params.verbose ? "inherit" : "pipe",
+				cwd: params.projectRoot || process.cwd(),
+				env,
+			});
+		} catch (error) {
+			reject(error);
+			return;
+		}
+
+		let output = "";
+
+		if (!params.verbose && wrangler.stdout && wrangler.stderr) {
+			wrangler.stdout.on("data", (data) => {
+				output += data.toString();
+			});
+
+			wrangler.stderr.on("data", (data) => {
+				output += data.toString();
+			});
+		}
+
+		wrangler.on("error", (error) => {
+			reject(error);
+		});
+
+		wrangler.on("exit", (code) => {
+			if (code === 0) {
+				resolve();
+			} else {
+				// The formatter decides how to show wrangler's output
+				reject(new DeployError(`wrangler rollback failed with exit code ${code}`, code, output.trim()));
+			}
+		});
+	});
+}
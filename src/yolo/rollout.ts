@@ -0,0 +1,167 @@
+/**
+ * Gradual rollout - steps a freshly uploaded version through increasing
+ * shares of traffic, reverting to the previous version if it's aborted
+ */
+
+import type { RolloutSettings } from "../settings";
+import { deployVersions, type VersionSplit } from "./promote";
+import type { RollbackTarget } from "./rollback";
+
+export interface RolloutOptions {
+	/** Percentages of traffic the new version gets, ascending and ending at 100 */
+	steps: number[];
+	/** How long each step runs before moving on to the next */
+	intervalMs: number;
+}
+
+export interface RolloutHooks {
+	/** Aborts the rollout at the next opportunity, e.g. on a keypress */
+	signal?: AbortSignal;
+	/** Called once traffic has been split for a step */
+	onStep?: (split: VersionSplit[]) => void;
+	/** Called before waiting for the next step */
+	onWait?: (intervalMs: number, nextPercentage: number) => void;
+	/** Runs after each wait; resolving to false aborts the rollout */
+	verify?: () => Promise<boolean>;
+}
+
+export type RolloutOutcome =
+	| { completed: true }
+	| {
+			completed: false;
+			/** Why the rollout stopped */
+			reason: string;
+			/** Set when a step failed to split traffic */
+			stepError?: Error;
+			/** Set when sending traffic back to the previous version failed */
+			revertError?: Error;
+	  };
+
+export const DEFAULT_ROLLOUT_STEPS = [10, 50, 100];
+export const DEFAULT_ROLLOUT_INTERVAL_SECONDS = 30;
+
+/**
+ * Builds rollout options from .wronglerrc.json and the `--rollout-*` flags,
+ * which take precedence. Throws if the steps don't make sense.
+ */
+export function toRolloutOptions(
+	settings: RolloutSettings | undefined,
+	stepsFlag?: string,
+	intervalSecondsFlag?: number
+): RolloutOptions {
+	const steps = stepsFlag !== undefined ? stepsFlag.split(",").map((step) => Number(step.trim())) : settings?.steps;
+	const intervalSeconds = intervalSecondsFlag ?? settings?.intervalSeconds ?? DEFAULT_ROLLOUT_INTERVAL_SECONDS;
+
+	const resolvedSteps = steps ?? DEFAULT_ROLLOUT_STEPS;
+	for (let i = 0; i < resolvedSteps.length; i++) {
+		const step = resolvedSteps[i];
+		if (!Number.isInteger(step) || step < 1 || step > 100) {
+			throw new Error(`Rollout steps must be whole percentages from 1 to 100 (got "${step}")`);
+		}
+		if (i > 0 && step <= resolvedSteps[i - 1]) {
+			throw new Error(`Rollout steps must increase (got ${resolvedSteps.join(", ")})`);
+		}
+	}
+	if (!Number.isFinite(intervalSeconds) || intervalSeconds < 0) {
+		throw new Error(`Rollout interval must be a number of seconds (got "${intervalSeconds}")`);
+	}
+
+	// Every rollout ends with the new version serving all traffic
+	return {
+		steps: resolvedSteps.at(-1) === 100 ? resolvedSteps : [...resolvedSteps, 100],
+		intervalMs: intervalSeconds * 1000,
+	};
+}
+
+/**
+ * Waits for the given time, or until the signal aborts
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (signal?.aborted) {
+			resolve();
+			return;
+		}
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		const onAbort = () => {
+			clearTimeout(timer);
+			resolve();
+		};
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+/**
+ * Rolls `versionId` out in steps, splitting traffic with `previousVersionId`.
+ * Aborting, a failed verification or a failed step sends all traffic back to
+ * the previous version. A string passed to `AbortController.abort()` is used
+ * as the reason.
+ */
+export async function runRollout(
+	target: RollbackTarget,
+	versionId: string,
+	previousVersionId: string,
+	options: RolloutOptions,
+	hooks: RolloutHooks = {}
+): Promise<RolloutOutcome> {
+	const abort = async (reason: string, stepError?: Error): Promise<RolloutOutcome> => {
+		try {
+			await deployVersions(
+				target,
+				[{ versionId: previousVersionId, percentage: 100 }],
+				"YOLO: rollout aborted"
+			);
+			return { completed: false, reason, stepError };
+		} catch (error) {
+			return {
+				completed: false,
+				reason,
+				stepError,
+				revertError: error instanceof Error ? error : new Error(String(error)),
+			};
+		}
+	};
+	const abortReason = () => (typeof hooks.signal?.reason === "string" ? hooks.signal.reason : "aborted");
+
+	for (let i = 0; i < options.steps.length; i++) {
+		const percentage = options.steps[i];
+		const split: VersionSplit[] =
+			percentage === 100
+				? [{ versionId, percentage }]
+				: [
+						{ versionId, percentage },
+						{ versionId: previousVersionId, percentage: 100 - percentage },
+				  ];
+
+		if (hooks.signal?.aborted) {
+			return abort(abortReason());
+		}
+
+		try {
+			await deployVersions(target, split, `YOLO: rollout ${percentage}%`);
+		} catch (error) {
+			const stepError = error instanceof Error ? error : new Error(String(error));
+			return abort(`step to ${percentage}% failed: ${stepError.message}`, stepError);
+		}
+		hooks.onStep?.(split);
+
+		if (percentage === 100) {
+			break;
+		}
+
+		hooks.onWait?.(options.intervalMs, options.steps[i + 1]);
+		await wait(options.intervalMs, hooks.signal);
+		if (hooks.signal?.aborted) {
+			return abort(abortReason());
+		}
+
+		if (hooks.verify && !(await hooks.verify())) {
+			return abort(`smoke tests failed at ${percentage}%`);
+		}
+	}
+
+	return { completed: true };
+}
@@ -0,0 +1,879 @@
+/**
+ * YOLO session - watches the project and redeploys on every change. This is
+ * the library side of YOLO mode: it never touches stdin, signals or the
+ * process, and is driven through the controller it returns.
+ */
+
+import { EventEmitter } from "node:events";
+import path from "node:path";
+import type { FSWatcher } from "chokidar";
+import { watch } from "chokidar";
+import { getChangedConfigKeys } from "../config";
+import { appendDeployLog, type DeployLogEntry, type DeployOutcome } from "../deploy-log";
+import { logger } from "../logger";
+import type { DeploymentResult, FileChange } from "../types";
+import { debounce } from "../utils/debounce";
+import { constructVersionUrl } from "../utils/urls";
+import { buildWorker, canBuildLocally } from "./build";
+import { buildVersionMessage, ChangeSet } from "./change-set";
+import { runChecks, type PreDeployCheck } from "./checks";
+import { getCurrentVersion, recordVersion, rollbackVersions, toHistoryTarget } from "./history";
+import { promote } from "./promote";
+import { rollback } from "./rollback";
+import { runRollout, toRolloutOptions, type RolloutOptions } from "./rollout";
+import { runSmokeTests, type SmokeOptions } from "./smoke";
+import deploy, { DeployAbortedError, isUploadMode, type DeployParams } from "./deploy";
+import { EventFormatter } from "./event-formatter";
+import { combineFormatters, type DeploymentStats, type YoloFormatter } from "./output-formatter";
+
+export interface YoloSessionOptions {
+	verbose?: boolean;
+	debounceMs?: number;
+	/**
+	 * Re-reads the config and rebuilds the deploy params after the config file
+	 * changes. Should throw if the edited config is invalid.
+	 */
+	reloadDeployParams?: () => DeployParams;
+	/**
+	 * "Latest wins": abort an in-flight deploy that is still building when a
+	 * newer change arrives, instead of letting it finish first
+	 */
+	latestWins?: boolean;
+	/** Commands that must pass before each deploy; a failure blocks the deploy */
+	checks?: PreDeployCheck[];
+	/** Requests made after each successful deploy; a failure triggers a rollback */
+	smoke?: SmokeOptions;
+	/** Traffic steps for gradual mode */
+	rollout?: RolloutOptions;
+	/** Also report progress here, e.g. as text; the controller's events are always emitted */
+	formatter?: YoloFormatter;
+}
+
+export type SessionState = "idle" | "deploying" | "rolling-out" | "paused" | "stopping" | "stopped";
+
+export interface YoloController {
+	/**
+	 * Session events, see YoloEvent. Each is emitted under its type (e.g.
+	 * "deploy-success") and under "event".
+	 */
+	readonly events: EventEmitter;
+	/** Resolves once the initial deployment has finished and files are watched */
+	readonly ready: Promise<void>;
+	/** A snapshot of the session statistics */
+	readonly stats: DeploymentStats;
+	readonly state: SessionState;
+	readonly paused: boolean;
+	/** Whether a gradual rollout is stepping through its traffic split */
+	readonly rollingOut: boolean;
+	/** Deploys now, even if nothing changed. Queued if a deployment is running. */
+	deployNow(): Promise<void>;
+	/** Rolls back to the previous (or n-th previous) recorded version */
+	rollback(steps?: number): Promise<void>;
+	/** Sends all traffic to the latest version uploaded in preview mode */
+	promote(): Promise<void>;
+	/** Aborts a rollout in progress; returns false if there is none */
+	abortRollout(reason?: string): boolean;
+	/** Keeps collecting changes but stops deploying them */
+	pause(): void;
+	/** Deploys the changes collected while paused, if any */
+	resume(): void;
+	/** Stops watching, waits for a running deployment and reports the exit */
+	stop(): Promise<void>;
+}
+
+/**
+ * Starts a YOLO session - deploys, then watches for file changes and
+ * redeploys automatically until stopped
+ */
+export function createYoloSession(deployParams: DeployParams, options: YoloSessionOptions = {}): YoloController {
+	const events = new EventEmitter();
+	const eventFormatter = new EventFormatter((event) => {
+		events.emit(event.type, event);
+		events.emit("event", event);
+	});
+	const formatter = options.formatter ? combineFormatters([options.formatter, eventFormatter]) : eventFormatter;
+	const previewMode = deployParams.mode === "preview";
+	const gradualMode = deployParams.mode === "gradual";
+	const debounceMs = options.debounceMs ?? 50;
+
+	// Source files in the last successful bundle, from esbuild's metafile
+	let bundleInputs: string[] | undefined;
+
+	// Determine which files to watch
+	let watchPaths = getWatchPaths(deployParams, bundleInputs);
+	const configPath = deployParams.config.configPath
+		? path.resolve(deployParams.config.configPath)
+		: undefined;
+
+	let watcher: FSWatcher | null = null;
+	let isDeploying = false;
+	let pendingDeploy = false;
+	let paused = false;
+	let stopped = false;
+	let deployAbortController: AbortController | null = null;
+	const stats: DeploymentStats = {
+		successful: 0,
+		failed: 0,
+		skipped: 0,
+		superseded: 0,
+		blocked: 0,
+		rolledBack: 0,
+		promoted: 0,
+		rolloutsAborted: 0,
+		totalTime: 0,
+	};
+
+	// Called when a deployment, rollback or promotion finishes, for stop()
+	let idleWaiters: Array<() => void> = [];
+	const finishTask = () => {
+		isDeploying = false;
+		const waiters = idleWaiters;
+		idleWaiters = [];
+		for (const resolve of waiters) {
+			resolve();
+		}
+	};
+
+	// Hash of the last successfully deployed build, to skip no-op deploys
+	let lastDeployedHash: string | undefined;
+
+	// In preview mode, the newest uploaded version that passed its smoke tests
+	let latestPreview: { versionId: string; hash?: string } | undefined;
+
+	// Set while a gradual rollout is stepping through its traffic split
+	let rolloutAbortController: AbortController | null = null;
+
+
+	/**
+	 * Runs the smoke tests against a fresh deployment and rolls back to the
+	 * last good version if they fail. Returns whether the deployment is healthy.
+	 * Uploaded versions are tested through their own URL and never rolled
+	 * back, as they don't serve any traffic yet.
+	 */
+	const verifyDeployment = async (result: DeploymentResult): Promise<boolean> => {
+		const smoke = options.smoke;
+		if (!smoke || smoke.checks.length === 0) {
+			return true;
+		}
+
+		const workerUrl = result.targets?.[0];
+		const previewUrl =
+			result.previewUrl ??
+			(workerUrl && result.versionId ? constructVersionUrl(workerUrl, result.versionId) : null);
+		const target = isUploadMode(deployParams.mode) ? "preview" : smoke.target;
+		const baseUrl = smoke.baseUrl ?? (target === "preview" ? previewUrl : workerUrl);
+		if (!baseUrl) {
+			formatter.formatSmokeSkipped(`no ${target} URL in wrangler's output`);
+			return true;
+		}
+
+		const results = await runSmokeTests(baseUrl, smoke.checks);
+		formatter.formatSmokeResults(results);
+		if (results.every((smokeResult) => smokeResult.passed)) {
+			return true;
+		}
+
+		if (isUploadMode(deployParams.mode) || !smoke.rollback) {
+			return false;
+		}
+
+		// The newest recorded version is the last one that passed
+		const lastGood = getCurrentVersion(toHistoryTarget(deployParams));
+		if (!lastGood) {
+			formatter.formatRollbackUnavailable("smoke tests failed and no earlier good version is recorded");
+			return false;
+		}
+
+		try {
+			await rollback(deployParams, lastGood.versionId, "YOLO: rollback after failed smoke tests");
+			formatter.formatRollback(lastGood.versionId);
+			stats.rolledBack++;
+			// The last good build is live again
+			lastDeployedHash = lastGood.hash;
+		} catch (error) {
+			formatter.formatRollback(lastGood.versionId, error instanceof Error ? error : new Error(String(error)));
+		}
+		return false;
+	};
+
+	/**
+	 * Rolls back to the previous (or n-th previous) recorded version
+	 */
+	const performRollback = async (steps = 1) => {
+		if (isDeploying) {
+			formatter.formatRollbackUnavailable("a deployment is in progress, try again when it finishes");
+			return;
+		}
+
+		// Hold off deploys while the rollback runs; changes are queued as usual
+		isDeploying = true;
+		const startTime = Date.now();
+		try {
+			const version = await rollbackVersions({ ...deployParams, ...toHistoryTarget(deployParams) }, steps);
+			formatter.formatRollback(version.versionId);
+			lastDeployedHash = version.hash;
+			logDeployment({
+				action: "rollback",
+				outcome: "success",
+				versionId: version.versionId,
+				durationMs: Date.now() - startTime,
+				changes: [],
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			formatter.formatRollbackUnavailable(message, error instanceof Error ? error : undefined);
+			logDeployment({
+				action: "rollback",
+				outcome: "failed",
+				reason: message,
+				durationMs: Date.now() - startTime,
+				changes: [],
+			});
+		} finally {
+			finishTask();
+			if (pendingDeploy) {
+				void debouncedDeploy();
+			}
+		}
+	};
+
+	/**
+	 * Sends all traffic to the latest preview version
+	 */
+	const performPromote = async () => {
+		if (!latestPreview) {
+			formatter.formatPromoteUnavailable("no preview version has been uploaded and passed its checks yet");
+			return;
+		}
+		if (isDeploying) {
+			formatter.formatPromoteUnavailable("an upload is in progress, try again when it finishes");
+			return;
+		}
+
+		const version = latestPreview;
+		isDeploying = true;
+		const startTime = Date.now();
+		try {
+			await promote(deployParams, version.versionId, "YOLO: promote preview");
+			formatter.formatPromote(version.versionId);
+			stats.promoted++;
+			logDeployment({
+				action: "promote",
+				outcome: "success",
+				versionId: version.versionId,
+				durationMs: Date.now() - startTime,
+				changes: [],
+			});
+			latestPreview = undefined;
+
+			// Promoted versions are live, so they become rollback targets
+			recordLiveVersion(version.versionId, version.hash);
+		} catch (error) {
+			const promoteError = error instanceof Error ? error : new Error(String(error));
+			formatter.formatPromote(version.versionId, promoteError);
+			logDeployment({
+				action: "promote",
+				outcome: "failed",
+				reason: promoteError.message,
+				versionId: version.versionId,
+				durationMs: Date.now() - startTime,
+				changes: [],
+			});
+		} finally {
+			finishTask();
+			if (pendingDeploy) {
+				void debouncedDeploy();
+			}
+		}
+	};
+
+	/**
+	 * Adds a version that went live to the rollback history. The version is
+	 * live whether or not the cache can be written, so a failure is only a
+	 * warning.
+	 */
+	const recordLiveVersion = (versionId: string, hash: string | undefined) => {
+		try {
+			recordVersion(toHistoryTarget(deployParams), {
+				versionId,
+				deployedAt: new Date().toISOString(),
+				accountId: deployParams.accountId,
+				hash,
+			});
+		} catch (error) {
+			formatter.formatHistoryError(versionId, error instanceof Error ? error : new Error(String(error)));
+		}
+	};
+
+	/**
+	 * Adds a deployment, promotion or rollback to the persistent log under ~/.wrongler
+	 */
+	const logDeployment = (
+		entry: Pick<DeployLogEntry, "action" | "outcome" | "reason" | "versionId" | "durationMs" | "changes"> & {
+			result?: DeploymentResult;
+		}
+	) => {
+		const error = appendDeployLog({
+			timestamp: new Date().toISOString(),
+			worker: deployParams.name,
+			env: deployParams.env,
+			accountId: deployParams.accountId,
+			mode: deployParams.mode ?? "deploy",
+			action: entry.action ?? "deploy",
+			outcome: entry.outcome,
+			reason: entry.reason,
+			versionId: entry.versionId ?? entry.result?.versionId,
+			workerUrl: entry.result?.targets?.[0],
+			previewUrl: entry.result?.previewUrl,
+			durationMs: entry.durationMs,
+			changes: entry.changes,
+		});
+		if (error) {
+			logger.debug("Could not write the deployment log:", error);
+		}
+	};
+
+	/**
+	 * Steps a freshly uploaded version through the configured traffic split,
+	 * re-running the smoke tests after each step
+	 */
+	const performRollout = async (
+		result: DeploymentResult,
+		versionId: string,
+		hash: string | undefined
+	): Promise<Pick<DeployLogEntry, "outcome" | "reason">> => {
+		// Without a known live version there is nothing to split traffic with
+		const previous = getCurrentVersion(toHistoryTarget(deployParams));
+		if (!previous) {
+			formatter.formatRolloutSkipped("no earlier YOLO version is recorded to split traffic with");
+			try {
+				await promote(deployParams, versionId, "YOLO: initial rollout");
+				formatter.formatRolloutComplete(versionId);
+				recordLiveVersion(versionId, hash);
+				return { outcome: "success" };
+			} catch (error) {
+				const promoteError = error instanceof Error ? error : new Error(String(error));
+				formatter.formatPromote(versionId, promoteError);
+				lastDeployedHash = undefined;
+				return { outcome: "failed", reason: promoteError.message };
+			}
+		}
+
+		rolloutAbortController = new AbortController();
+		try {
+			const outcome = await runRollout(
+				deployParams,
+				versionId,
+				previous.versionId,
+				options.rollout ?? toRolloutOptions(undefined),
+				{
+					signal: rolloutAbortController.signal,
+					onStep: (split) => formatter.formatRolloutStep(split),
+					onWait: (intervalMs, nextPercentage) => formatter.formatRolloutWait(intervalMs, nextPercentage),
+					verify: () => verifyDeployment(result),
+				}
+			);
+
+			if (outcome.completed) {
+				formatter.formatRolloutComplete(versionId);
+				recordLiveVersion(versionId, hash);
+				return { outcome: "success" };
+			}
+
+			formatter.formatRolloutAborted(outcome.reason, previous.versionId, outcome.revertError, outcome.stepError);
+			stats.rolloutsAborted++;
+			// The previous build is live again
+			lastDeployedHash = previous.hash;
+			return { outcome: "rolled-back", reason: `rollout ${outcome.reason}` };
+		} finally {
+			rolloutAbortController = null;
+		}
+	};
+
+	// Track if this is the first deployment
+	let isFirstDeploy = true;
+
+	// Set when the config file changed since the last deployment
+	let configChanged = false;
+
+	// Files changed since the last deployment
+	const changeSet = new ChangeSet();
+
+	/**
+	 * Brings the watcher in line with the current deploy params, e.g. after
+	 * `main` or the assets directory moved
+	 */
+	const updateWatchPaths = () => {
+		const nextPaths = getWatchPaths(deployParams, bundleInputs);
+		const removed = watchPaths.filter((watchPath) => !nextPaths.includes(watchPath));
+		const added = nextPaths.filter((watchPath) => !watchPaths.includes(watchPath));
+		watchPaths = nextPaths;
+
+		if (removed.length === 0 && added.length === 0) {
+			return;
+		}
+
+		// Before the watcher starts, the full list is printed instead
+		if (watcher) {
+			watcher.unwatch(removed);
+			watcher.add(added);
+			if (!options.verbose) {
+				formatter.formatWatchUpdate(added, removed);
+			}
+		}
+	};
+
+	/**
+	 * Re-reads the changed config. Returns false if the edit is invalid, in
+	 * which case the last good config stays active.
+	 */
+	const reloadConfig = (): boolean => {
+		configChanged = false;
+		if (!options.reloadDeployParams) {
+			return true;
+		}
+
+		let nextParams: DeployParams;
+		try {
+			nextParams = options.reloadDeployParams();
+		} catch (error) {
+			formatter.formatConfigError(error instanceof Error ? error : new Error(String(error)));
+			return false;
+		}
+
+		formatter.formatConfigReload(getChangedConfigKeys(deployParams.config, nextParams.config));
+		deployParams = nextParams;
+		updateWatchPaths();
+		return true;
+	};
+
+	/**
+	 * Performs a deployment
+	 */
+	const performDeploy = async (force = false) => {
+		// Changes stay in the change set while paused and go out on resume
+		if (stopped || (paused && !force)) {
+			return;
+		}
+
+		// If already deploying, mark that we need another deploy after this one
+		if (isDeploying) {
+			pendingDeploy = true;
+			if (options.latestWins) {
+				deployAbortController?.abort();
+			}
+			return;
+		}
+
+		isDeploying = true;
+		pendingDeploy = false;
+
+		// Pick up config edits before deploying; skip the deploy if the edit is invalid
+		if (configChanged && !reloadConfig()) {
+			finishTask();
+			return;
+		}
+
+		// Everything that changed since the last deployment goes into this one
+		const changes = changeSet.take();
+		let changesDeployed = false;
+
+		const startTime = Date.now();
+		deployAbortController = new AbortController();
+		const { signal } = deployAbortController;
+
+		try {
+			formatter.formatDeployStart(changes);
+
+			// Build locally first: this refreshes the import graph and lets us
+			// skip uploads whose output is identical to the last deployment
+			let buildHash: string | undefined;
+			if (canBuildLocally(deployParams)) {
+				const build = await buildWorker(deployParams, { signal });
+				buildHash = build.hash;
+
+				// Follow the import graph of the bundle that was just built
+				if (build.bundleInputs) {
+					bundleInputs = build.bundleInputs;
+					updateWatchPaths();
+				}
+
+				if (!force && buildHash === lastDeployedHash) {
+					formatter.formatNoEffectiveChange(Date.now() - startTime);
+					stats.skipped++;
+					changesDeployed = true;
+					return;
+				}
+			}
+
+			// Gate the deploy on the configured checks
+			if (options.checks && options.checks.length > 0) {
+				const failure = await runChecks(options.checks, {
+					cwd: deployParams.projectRoot || process.cwd(),
+					signal,
+				});
+				if (failure) {
+					formatter.formatDeployBlocked(failure);
+					stats.blocked++;
+					logDeployment({
+						outcome: "blocked",
+						reason: `check failed: ${failure.name}`,
+						durationMs: Date.now() - startTime,
+						changes,
+					});
+					return;
+				}
+			}
+
+			// Describe the changes in the version message, unless the user set one
+			const userMessage = deployParams.passthroughArgs?.some(
+				(arg) => arg === "--message" || arg.startsWith("--message=")
+			);
+			const message = userMessage ? undefined : buildVersionMessage(changes, force);
+
+			const result: DeploymentResult = {
+				...(await deploy({ ...deployParams, message }, { signal })),
+				changes,
+			};
+			lastDeployedHash = buildHash;
+			changesDeployed = true;
+
+			const duration = Date.now() - startTime;
+
+			// Get the worker URL from targets if available
+			const workerUrl = result.targets?.[0];
+
+			formatter.formatDeploySuccess({
+				success: true,
+				versionId: result.versionId ?? undefined,
+				workerUrl,
+				previewUrl: result.previewUrl,
+				targets: result.targets?.map((url: string) => ({ name: "worker", url })),
+				duration,
+			});
+
+			// Update stats
+			stats.successful++;
+			stats.totalTime += duration;
+			stats.lastDeployTime = new Date();
+
+			// Verify the new version actually works before trusting it as a
+			// rollback target, or in preview mode before offering to promote it
+			const healthy = await verifyDeployment(result);
+			let outcome: DeployOutcome = "success";
+			let reason: string | undefined;
+			if (!healthy) {
+				// Only full deploys are live by now and get rolled back
+				const rolledBack = !isUploadMode(deployParams.mode) && options.smoke?.rollback;
+				outcome = rolledBack ? "rolled-back" : "failed";
+				reason = "smoke tests failed";
+			}
+
+			if (previewMode) {
+				latestPreview = healthy && result.versionId ? { versionId: result.versionId, hash: buildHash } : undefined;
+				if (latestPreview) {
+					formatter.formatPromoteHint();
+				}
+			} else if (gradualMode) {
+				if (healthy && result.versionId) {
+					({ outcome, reason } = await performRollout(result, result.versionId, buildHash));
+				}
+			} else if (healthy && result.versionId) {
+				recordLiveVersion(result.versionId, buildHash);
+			}
+
+			logDeployment({ outcome, reason, durationMs: duration, changes, result });
+
+			// Mark first deploy as complete
+			if (isFirstDeploy) {
+				isFirstDeploy = false;
+			}
+		} catch (error) {
+			const duration = Date.now() - startTime;
+
+			// A newer change took over - not a failure
+			if (error instanceof DeployAbortedError) {
+				formatter.formatDeploySuperseded(duration);
+				stats.superseded++;
+				return;
+			}
+
+			formatter.formatDeployError(
+				error instanceof Error ? error : new Error(String(error))
+			);
+
+			// Update stats
+			stats.failed++;
+			stats.totalTime += duration;
+			stats.lastDeployTime = new Date();
+
+			logDeployment({
+				outcome: "failed",
+				reason: error instanceof Error ? error.message : String(error),
+				durationMs: duration,
+				changes,
+			});
+
+			// Don't exit - stay in watch mode
+		} finally {
+			finishTask();
+			deployAbortController = null;
+
+			// Changes that didn't go live are carried over to the next deployment
+			if (!changesDeployed) {
+				changeSet.restore(changes);
+			}
+
+			// If another change happened during deployment, trigger another deploy
+			if (pendingDeploy) {
+				void debouncedDeploy();
+			}
+		}
+	};
+
+	// Debounced deploy function
+	const debouncedDeploy = debounce(() => {
+		void performDeploy();
+	}, debounceMs);
+
+	/**
+	 * Starts the file watcher
+	 */
+	const startWatching = () => {
+		watcher = watch(watchPaths, {
+			ignored: [
+				"**/node_modules/**",
+				"**/.git/**",
+				"**/.wrangler/**",
+				"**/dist/**",
+				"**/build/**",
+				// Additional patterns to catch build artifacts
+				(filePath: string) => {
+					// Ignore any path containing .wrangler directory
+					return filePath.includes("/.wrangler/") || filePath.includes("\\.wrangler\\");
+				},
+			],
+			persistent: true,
+			ignoreInitial: true,
+			awaitWriteFinish: {
+				stabilityThreshold: 100,
+				pollInterval: 100,
+			},
+		});
+
+		watcher.on("change", (filePath: string) => {
+			// Double-check we're not processing .wrangler files
+			if (filePath.includes(".wrangler")) {
+				return;
+			}
+
+			if (configPath && path.resolve(filePath) === configPath) {
+				configChanged = true;
+			}
+
+			const change: FileChange = { path: path.relative(process.cwd(), filePath), type: "change" };
+			changeSet.record(change);
+
+			// In verbose mode, don't show file changes during deployment
+			// as it clutters the output
+			if (!isDeploying || !options.verbose) {
+				formatter.formatFileChange(change);
+			}
+			debouncedDeploy();
+		});
+
+		watcher.on("add", (filePath: string) => {
+			// Double-check we're not processing .wrangler files
+			if (filePath.includes(".wrangler")) {
+				return;
+			}
+
+			if (configPath && path.resolve(filePath) === configPath) {
+				configChanged = true;
+			}
+
+			const change: FileChange = { path: path.relative(process.cwd(), filePath), type: "add" };
+			changeSet.record(change);
+			formatter.formatFileChange(change);
+			debouncedDeploy();
+		});
+
+		watcher.on("unlink", (filePath: string) => {
+			// Double-check we're not processing .wrangler files
+			if (filePath.includes(".wrangler")) {
+				return;
+			}
+
+			if (configPath && path.resolve(filePath) === configPath) {
+				configChanged = true;
+			}
+
+			const change: FileChange = { path: path.relative(process.cwd(), filePath), type: "unlink" };
+			changeSet.record(change);
+			formatter.formatFileChange(change);
+			debouncedDeploy();
+		});
+
+		watcher.on("error", (err: unknown) => {
+			const error = err instanceof Error ? err : new Error(String(err));
+			formatter.formatWatcherError(error);
+		});
+	};
+
+	/**
+	 * Stops watching and waits for the running deployment, if any. A rollout
+	 * in progress is aborted, which sends traffic back to the previous version.
+	 */
+	let stopping: Promise<void> | null = null;
+	let exited = false;
+	const stop = () => {
+		stopping ??= (async () => {
+			stopped = true;
+			if (watcher) {
+				await watcher.close();
+				watcher = null;
+			}
+
+			deployAbortController?.abort();
+			rolloutAbortController?.abort("session stopped");
+			if (isDeploying) {
+				await new Promise<void>((resolve) => idleWaiters.push(resolve));
+			}
+
+			formatter.formatExitMessage(stats);
+			exited = true;
+		})();
+		return stopping;
+	};
+
+	// Perform the initial deployment, then start watching
+	const ready = (async () => {
+		// Give the caller a chance to subscribe to events first
+		await Promise.resolve();
+
+		formatter.formatInitialDeploy({
+			worker: deployParams.name,
+			env: deployParams.env,
+			mode: deployParams.mode ?? "deploy",
+		});
+		await performDeploy();
+		if (stopped) {
+			return;
+		}
+
+		// The initial deploy tells us the bundle's import graph, so list what we watch now
+		if (!options.verbose) {
+			formatter.formatWatchInfo(watchPaths);
+		}
+		startWatching();
+	})();
+
+	return {
+		events,
+		ready,
+		get stats() {
+			return { ...stats };
+		},
+		get state(): SessionState {
+			if (stopping) {
+				return exited ? "stopped" : "stopping";
+			}
+			if (rolloutAbortController) {
+				return "rolling-out";
+			}
+			if (isDeploying) {
+				return "deploying";
+			}
+			return paused ? "paused" : "idle";
+		},
+		get paused() {
+			return paused;
+		},
+		get rollingOut() {
+			return rolloutAbortController !== null;
+		},
+		deployNow: () => performDeploy(true),
+		rollback: (steps?: number) => performRollback(steps),
+		promote: () => performPromote(),
+		abortRollout: (reason = "aborted") => {
+			if (!rolloutAbortController) {
+				return false;
+			}
+			rolloutAbortController.abort(reason);
+			return true;
+		},
+		pause: () => {
+			if (paused || stopped) {
+				return;
+			}
+			paused = true;
+			formatter.formatPaused();
+		},
+		resume: () => {
+			if (!paused || stopped) {
+				return;
+			}
+			paused = false;
+			formatter.formatResumed(changeSet.list());
+			if (changeSet.size > 0 || configChanged) {
+				debouncedDeploy();
+			}
+		},
+		stop,
+	};
+}
+
+/**
+ * Determines which files/directories to watch based on deployment configuration.
+ * Once a bundle has been built, its inputs replace the entry-directory heuristic
+ * so that exactly the files that end up in the bundle are watched.
+ */
+function getWatchPaths(deployParams: DeployParams, bundleInputs?: string[]): string[] {
+	const paths: string[] = [];
+
+	// Watch the config file if it exists
+	if (deployParams.config.configPath) {
+		paths.push(deployParams.config.configPath);
+	}
+
+	// Watch the entry point file
+	if (deployParams.entry.file) {
+		paths.push(deployParams.entry.file);
+
+		if (bundleInputs) {
+			// Watch every source file the bundler pulled in, wherever it lives
+			for (const input of bundleInputs) {
+				if (!paths.includes(input)) {
+					paths.push(input);
+				}
+			}
+		} else {
+			// No bundle yet (or --no-bundle): watch the directory containing the
+			// entry point to catch new files that might be imported. The ignore
+			// patterns will filter out build artifacts.
+			const entryDir = path.dirname(deployParams.entry.file);
+			if (entryDir && entryDir !== ".") {
+				paths.push(entryDir);
+			}
+		}
+	}
+
+	// Watch assets directory if configured
+	if (deployParams.assetsOptions?.directory) {
+		const watchDir = deployParams.projectRoot || process.cwd();
+		const assetsPath = path.resolve(
+			watchDir,
+			deployParams.assetsOptions.directory
+		);
+		paths.push(assetsPath);
+	}
+
+	// Watch Workers Sites bucket if configured
+	if (deployParams.legacyAssetPaths) {
+		const watchDir = deployParams.projectRoot || process.cwd();
+		const sitePath = path.resolve(watchDir, deployParams.legacyAssetPaths.baseDirectory);
+		paths.push(sitePath);
+	}
+
+	return paths;
+}
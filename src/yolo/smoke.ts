@@ -0,0 +1,178 @@
+/**
+ * Post-deploy smoke tests - requests a few paths on the freshly deployed worker
+ */
+
+import type { SmokeCheckSettings, SmokeSettings } from "../settings";
+
+export interface SmokeCheck {
+	path: string;
+	/** Expected HTTP status, 200 by default */
+	status: number;
+	/** Substring the response body must contain */
+	contains?: string;
+	/** Fail if the full response takes longer than this */
+	maxLatencyMs?: number;
+}
+
+export interface SmokeResult {
+	check: SmokeCheck;
+	url: string;
+	passed: boolean;
+	status?: number;
+	latencyMs: number;
+	/** Why the check failed */
+	reason?: string;
+}
+
+export interface SmokeOptions {
+	checks: SmokeCheck[];
+	/** Overrides the URL the paths are resolved against */
+	baseUrl?: string;
+	/** Test the worker URL (default) or the version preview URL */
+	target: "worker" | "preview";
+	/** Roll back to the last good version when a check fails */
+	rollback: boolean;
+}
+
+/**
+ * Requests that get no answer at all are cut off after this long
+ */
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Normalises smoke checks from .wronglerrc.json and `--smoke` flags
+ */
+export function toSmokeChecks(checks: Array<string | SmokeCheckSettings> | undefined): SmokeCheck[] {
+	if (checks === undefined) {
+		return [];
+	}
+	// Settings come from JSON, so don't trust the types
+	if (!Array.isArray(checks)) {
+		throw new Error(`"smoke.checks" must be a list of paths (got ${JSON.stringify(checks)})`);
+	}
+
+	return checks.map((check, index) => {
+		if (typeof check === "string" && check.trim()) {
+			return { path: check, status: 200 };
+		}
+		if (
+			check !== null &&
+			typeof check === "object" &&
+			typeof check.path === "string" &&
+			check.path.trim() &&
+			(check.status === undefined ||
+				(Number.isInteger(check.status) && check.status >= 100 && check.status <= 599)) &&
+			(check.contains === undefined || typeof check.contains === "string") &&
+			(check.maxLatencyMs === undefined || (typeof check.maxLatencyMs === "number" && check.maxLatencyMs > 0))
+		) {
+			return {
+				path: check.path,
+				status: check.status ?? 200,
+				contains: check.contains,
+				maxLatencyMs: check.maxLatencyMs,
+			};
+		}
+		throw new Error(
+			`Smoke check ${index + 1} must be a path or ` +
+				`{ "path": string, "status"?: number, "contains"?: string, "maxLatencyMs"?: number } (got ${JSON.stringify(check)})`
+		);
+	});
+}
+
+/**
+ * Checks a smoke test base URL, which must be absolute http(s). Returns it
+ * unchanged.
+ */
+export function toSmokeBaseUrl(value: string): string {
+	let url: URL | undefined;
+	try {
+		url = new URL(value);
+	} catch {
+		// Reported below
+	}
+	if (!url || (url.protocol !== "http:" && url.protocol !== "https:")) {
+		throw new Error(`must be an http or https URL (got "${value}")`);
+	}
+	return value;
+}
+
+/**
+ * Builds smoke test options from the `smoke` section of .wronglerrc.json.
+ * Throws if a setting has the wrong type or value.
+ */
+export function toSmokeOptions(settings: SmokeSettings | undefined): SmokeOptions {
+	if (settings !== undefined && (settings === null || typeof settings !== "object" || Array.isArray(settings))) {
+		throw new Error(`"smoke" must be an object (got ${JSON.stringify(settings)})`);
+	}
+
+	const { checks, baseUrl, target = "worker", rollback = true } = settings ?? {};
+	if (target !== "worker" && target !== "preview") {
+		throw new Error(`"smoke.target" must be "worker" or "preview" (got ${JSON.stringify(target)})`);
+	}
+	if (typeof rollback !== "boolean") {
+		throw new Error(`"smoke.rollback" must be true or false (got ${JSON.stringify(rollback)})`);
+	}
+	if (baseUrl !== undefined) {
+		if (typeof baseUrl !== "string") {
+			throw new Error(`"smoke.baseUrl" must be a URL (got ${JSON.stringify(baseUrl)})`);
+		}
+		try {
+			toSmokeBaseUrl(baseUrl);
+		} catch (error) {
+			throw new Error(`"smoke.baseUrl" ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	return { checks: toSmokeChecks(checks), baseUrl, target, rollback };
+}
+
+/**
+ * Runs one smoke check against the base URL
+ */
+async function runSmokeCheck(baseUrl: string, check: SmokeCheck): Promise<SmokeResult> {
+	let url = check.path;
+	const startTime = Date.now();
+
+	try {
+		// A path that doesn't make a URL fails the check rather than the deploy
+		url = new URL(check.path, baseUrl).toString();
+		const response = await fetch(url, {
+			redirect: "manual",
+			signal: AbortSignal.timeout(Math.max(check.maxLatencyMs ?? 0, REQUEST_TIMEOUT_MS)),
+			headers: { "cache-control": "no-cache" },
+		});
+		const body = await response.text();
+		const latencyMs = Date.now() - startTime;
+		const result = { check, url, status: response.status, latencyMs };
+
+		if (response.status !== check.status) {
+			return { ...result, passed: false, reason: `expected status ${check.status}, got ${response.status}` };
+		}
+		if (check.contains !== undefined && !body.includes(check.contains)) {
+			return { ...result, passed: false, reason: `body does not contain "${check.contains}"` };
+		}
+		if (check.maxLatencyMs !== undefined && latencyMs > check.maxLatencyMs) {
+			return { ...result, passed: false, reason: `took ${latencyMs}ms, limit is ${check.maxLatencyMs}ms` };
+		}
+		return { ...result, passed: true };
+	} catch (error) {
+		return {
+			check,
+			url,
+			passed: false,
+			latencyMs: Date.now() - startTime,
+			reason: error instanceof Error ? error.message : String(error),
+		};
+	}
+}
+
+/**
+ * Runs all smoke checks against the base URL, one after another
+ */
+export async function runSmokeTests(baseUrl: string, checks: SmokeCheck[]): Promise<SmokeResult[]> {
+	const results: SmokeResult[] = [];
+	for (const check of checks) {
+		results.push(await runSmokeCheck(baseUrl, check));
+	}
+	return results;
+}
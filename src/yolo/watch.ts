@@ -1,252 +1,117 @@
-import path from "node:path";
+/**
+ * YOLO mode for the CLI - runs a YOLO session with keyboard shortcuts,
+ * signal handling and text or JSON output
+ */
+
 import * as readline from "node:readline";
-import type { FSWatcher } from "chokidar";
-import { watch } from "chokidar";
-import { logger } from "../logger";
-import { debounce } from "../utils/debounce";
-import deploy, { type DeployParams } from "./deploy";
-import { YoloOutputFormatter, type DeploymentStats } from "./output-formatter";
+import { startControlServer, type ControlServer } from "./control-server";
+import type { DeployParams } from "./deploy";
+import { createJsonFormatter } from "./event-formatter";
+import { YoloOutputFormatter, type YoloFormatter } from "./output-formatter";
+import { createYoloSession, type YoloController, type YoloSessionOptions } from "./session";
 
-interface WatchOptions {
+interface WatchOptions extends Omit<YoloSessionOptions, "formatter"> {
 	verbose: boolean;
-	debounceMs?: number;
+	/** Human-readable text (default) or one JSON event per line */
+	output?: "text" | "json";
+	/** Serve the control API on this localhost port */
+	controlPort?: number;
 }
 
 /**
- * Starts YOLO mode - watches for file changes and automatically redeploys
+ * Maps keypresses onto the session controller
  */
-export async function startYoloMode(
-	deployParams: DeployParams,
-	options: WatchOptions
-): Promise<void> {
-	const formatter = new YoloOutputFormatter(options.verbose);
-	const debounceMs = options.debounceMs ?? 50;
-
-	// Determine which files to watch
-	const watchPaths = getWatchPaths(deployParams);
-
-	formatter.formatInitialDeploy();
-	if (!options.verbose) {
-		formatter.formatWatchInfo(watchPaths);
+function setupKeyboardShortcuts(controller: YoloController, formatter: YoloFormatter, deployParams: DeployParams) {
+	if (!process.stdin.isTTY) {
+		return;
 	}
 
-	let watcher: FSWatcher | null = null;
-	let isDeploying = false;
-	let pendingDeploy = false;
-	const stats: DeploymentStats = {
-		successful: 0,
-		failed: 0,
-		totalTime: 0,
-	};
-
-	// Track if this is the first deployment
-	let isFirstDeploy = true;
+	readline.emitKeypressEvents(process.stdin);
+	if (process.stdin.setRawMode) {
+		process.stdin.setRawMode(true);
+	}
 
-	/**
-	 * Performs a deployment
-	 */
-	const performDeploy = async (changedPath?: string) => {
-		// If already deploying, mark that we need another deploy after this one
-		if (isDeploying) {
-			pendingDeploy = true;
+	process.stdin.on("keypress", (_str, key) => {
+		if (key.ctrl && key.name === "c") {
+			// Let the SIGINT handler take care of cleanup
+			process.kill(process.pid, "SIGINT");
 			return;
 		}
 
-		isDeploying = true;
-		pendingDeploy = false;
-
-		const startTime = Date.now();
-
-		try {
-			formatter.formatDeployStart(
-				changedPath
-					? {
-							path: path.relative(process.cwd(), changedPath),
-							type: "change",
-					  }
-					: undefined
-			);
-
-			const result = await deploy(deployParams);
-
-			const duration = Date.now() - startTime;
-
-			// Get the worker URL from targets if available
-			const workerUrl = result.targets?.[0];
-
-			formatter.formatDeploySuccess({
-				success: true,
-				versionId: result.versionId ?? undefined,
-				workerUrl,
-				targets: result.targets?.map((url: string) => ({ name: "worker", url })),
-				duration,
-			});
-
-			// Update stats
-			stats.successful++;
-			stats.totalTime += duration;
-			stats.lastDeployTime = new Date();
-
-			// Mark first deploy as complete
-			if (isFirstDeploy) {
-				isFirstDeploy = false;
-			}
-		} catch (error) {
-			const duration = Date.now() - startTime;
-
-			formatter.formatDeployError(
-				error instanceof Error ? error : new Error(String(error))
-			);
-
-			// Update stats
-			stats.failed++;
-			stats.totalTime += duration;
-			stats.lastDeployTime = new Date();
-
-			// Don't exit - stay in watch mode
-		} finally {
-			isDeploying = false;
-
-			// If another change happened during deployment, trigger another deploy
-			if (pendingDeploy) {
-				void debouncedDeploy();
-			}
+		// Any other key stops a rollout in progress
+		if (controller.rollingOut) {
+			formatter.formatShortcut("abort-rollout");
+			controller.abortRollout("aborted by keypress");
+			return;
 		}
-	};
-
-	// Debounced deploy function
-	const debouncedDeploy = debounce(() => {
-		void performDeploy();
-	}, debounceMs);
-
-	// Function to setup keyboard shortcuts
-	const setupKeyboardShortcuts = () => {
-		if (process.stdin.isTTY) {
-			readline.emitKeypressEvents(process.stdin);
-			if (process.stdin.setRawMode) {
-				process.stdin.setRawMode(true);
-			}
 
-			process.stdin.on("keypress", (_str, key) => {
-				if (key.ctrl && key.name === "c") {
-					// Let the SIGINT handler take care of cleanup
-					process.kill(process.pid, "SIGINT");
-					return;
+		switch (key.name) {
+			case "r":
+				formatter.formatShortcut("redeploy");
+				void controller.deployNow();
+				break;
+
+			case "p":
+				if (controller.paused) {
+					controller.resume();
+				} else {
+					controller.pause();
 				}
+				break;
 
-				switch (key.name) {
-					case "r":
-						console.log("\n⚡ Manual deployment triggered...\n");
-						void performDeploy();
-						break;
-
-					case "c":
-						console.clear();
-						formatter.formatInitialDeploy();
-						break;
-
-					case "s":
-						formatter.formatStats(stats);
-						break;
-
-					case "h":
-					case "?":
-						formatter.formatHelp();
-						break;
-
-					case "q":
-						process.kill(process.pid, "SIGINT");
-						break;
+			case "d":
+				if (deployParams.mode === "preview") {
+					formatter.formatShortcut("promote");
+					void controller.promote();
 				}
-			});
-		}
-	};
+				break;
 
-	// Perform initial deployment
-	console.log("⚡ Running initial deployment...\n");
-	await performDeploy();
+			case "b":
+				formatter.formatShortcut("rollback");
+				void controller.rollback();
+				break;
 
-	// Setup keyboard shortcuts AFTER initial deployment
-	// This prevents stdin conflicts with wrangler's interactive prompts
-	setupKeyboardShortcuts();
-
-	// Set up file watcher
-	watcher = watch(watchPaths, {
-		ignored: [
-			"**/node_modules/**",
-			"**/.git/**",
-			"**/.wrangler/**",
-			"**/dist/**",
-			"**/build/**",
-			// Additional patterns to catch build artifacts
-			(filePath: string) => {
-				// Ignore any path containing .wrangler directory
-				return filePath.includes("/.wrangler/") || filePath.includes("\\.wrangler\\");
-			},
-		],
-		persistent: true,
-		ignoreInitial: true,
-		awaitWriteFinish: {
-			stabilityThreshold: 100,
-			pollInterval: 100,
-		},
-	});
+			case "c":
+				formatter.formatClear();
+				break;
 
-	watcher.on("change", (filePath: string) => {
-		// Double-check we're not processing .wrangler files
-		if (filePath.includes(".wrangler")) {
-			return;
-		}
+			case "s":
+				formatter.formatStats(controller.stats);
+				break;
 
-		// In verbose mode, don't show file changes during deployment
-		// as it clutters the output
-		if (!isDeploying || !options.verbose) {
-			formatter.formatFileChange({
-				path: path.relative(process.cwd(), filePath),
-				type: "change",
-			});
-		}
-		debouncedDeploy();
-	});
+			case "h":
+			case "?":
+				formatter.formatHelp();
+				break;
 
-	watcher.on("add", (filePath: string) => {
-		// Double-check we're not processing .wrangler files
-		if (filePath.includes(".wrangler")) {
-			return;
+			case "q":
+				process.kill(process.pid, "SIGINT");
+				break;
 		}
-
-		formatter.formatFileChange({
-			path: path.relative(process.cwd(), filePath),
-			type: "add",
-		});
-		debouncedDeploy();
 	});
+}
 
-	watcher.on("unlink", (filePath: string) => {
-		// Double-check we're not processing .wrangler files
-		if (filePath.includes(".wrangler")) {
-			return;
-		}
-
-		formatter.formatFileChange({
-			path: path.relative(process.cwd(), filePath),
-			type: "unlink",
-		});
-		debouncedDeploy();
-	});
+/**
+ * Starts YOLO mode - watches for file changes and automatically redeploys
+ * until the process is interrupted
+ */
+export async function startYoloMode(deployParams: DeployParams, options: WatchOptions): Promise<void> {
+	const { output, controlPort, ...sessionOptions } = options;
+	const formatter: YoloFormatter =
+		output === "json" ? createJsonFormatter() : new YoloOutputFormatter(options.verbose, deployParams.mode);
 
-	watcher.on("error", (err: unknown) => {
-		const error = err instanceof Error ? err : new Error(String(err));
-		logger.error("File watcher error:", error);
-	});
+	const controller = createYoloSession(deployParams, { ...sessionOptions, formatter });
 
-	// Handle graceful shutdown
+	// Handle graceful shutdown; a second interrupt exits right away
+	let stopping = false;
+	let controlServer: ControlServer | undefined;
 	const cleanup = async () => {
-		if (watcher) {
-			await watcher.close();
-			watcher = null;
+		if (stopping) {
+			process.exit(1);
 		}
-		formatter.formatExitMessage(stats);
+		stopping = true;
+		await controller.stop();
+		await controlServer?.close();
 		process.exit(0);
 	};
 
@@ -258,51 +123,33 @@ export async function startYoloMode(
 		void cleanup();
 	});
 
-	// Keep the process alive
-	await new Promise(() => {
-		// This promise never resolves - we stay in watch mode until interrupted
-	});
-}
-
-/**
- * Determines which files/directories to watch based on deployment configuration
- */
-function getWatchPaths(deployParams: DeployParams): string[] {
-	const paths: string[] = [];
-
-	// Watch the config file if it exists
-	if (deployParams.config.configPath) {
-		paths.push(deployParams.config.configPath);
-	}
-
-	// Watch the entry point file
-	if (deployParams.entry.file) {
-		paths.push(deployParams.entry.file);
-
-		// Watch the directory containing the entry point to catch new files
-		// that might be imported. The ignore patterns will filter out build artifacts.
-		const entryDir = path.dirname(deployParams.entry.file);
-		if (entryDir && entryDir !== ".") {
-			paths.push(entryDir);
+	if (controlPort !== undefined) {
+		try {
+			controlServer = await startControlServer(controller, {
+				port: controlPort,
+				session: { worker: deployParams.name, env: deployParams.env, mode: deployParams.mode ?? "deploy" },
+				onStop: cleanup,
+			});
+			formatter.formatControlServer(controlServer.url);
+		} catch (error) {
+			// The initial deploy has already started - don't leave wrangler running
+			stopping = true;
+			await controller.stop();
+			const message = error instanceof Error ? error.message : String(error);
+			console.error(`Error: Could not start the control server on port ${controlPort}: ${message}`);
+			console.error("");
+			process.exit(1);
 		}
 	}
 
-	// Watch assets directory if configured
-	if (deployParams.assetsOptions?.directory) {
-		const watchDir = deployParams.projectRoot || process.cwd();
-		const assetsPath = path.resolve(
-			watchDir,
-			deployParams.assetsOptions.directory
-		);
-		paths.push(assetsPath);
-	}
+	await controller.ready;
 
-	// Watch Workers Sites bucket if configured
-	if (deployParams.legacyAssetPaths) {
-		const watchDir = deployParams.projectRoot || process.cwd();
-		const sitePath = path.resolve(watchDir, deployParams.legacyAssetPaths.baseDirectory);
-		paths.push(sitePath);
-	}
+	// Setup keyboard shortcuts AFTER initial deployment
+	// This prevents stdin conflicts with wrangler's interactive prompts
+	setupKeyboardShortcuts(controller, formatter, deployParams);
 
-	return paths;
+	// Keep the process alive
+	await new Promise(() => {
+		// This promise never resolves - we stay in watch mode until interrupted
+	});
 }
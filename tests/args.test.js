@@ -0,0 +1,39 @@
+/**
+ * Checks how flags wrongler passes through to wrangler are told apart from
+ * the entry point. Runs on the compiled code, so build first (`npm test`
+ * does).
+ */
+
+const assert = require("node:assert/strict");
+const { test } = require("node:test");
+const { parseArgs } = require("../dist/args");
+
+test("wrangler flags that take a value keep it", () => {
+	const parsed = parseArgs(["deploy", "--yolo", "--cwd", "sub", "--preview-alias", "staging", "src/index.ts"]);
+	assert.deepEqual(parsed.errors, []);
+	assert.equal(parsed.entryPoint, "src/index.ts");
+	assert.deepEqual(parsed.remainingArgs, ["--cwd", "sub", "--preview-alias", "staging"]);
+});
+
+test("boolean flags take true or false as a separate value", () => {
+	const parsed = parseArgs(["deploy", "--yolo", "--minify", "false", "--latest", "true", "src/index.ts"]);
+	assert.deepEqual(parsed.errors, []);
+	assert.equal(parsed.minify, false);
+	assert.equal(parsed.entryPoint, "src/index.ts");
+	assert.deepEqual(parsed.remainingArgs, ["--latest", "true"]);
+
+	const entry = parseArgs(["deploy", "--yolo", "--minify", "--latest", "src/index.ts"]);
+	assert.equal(entry.minify, true);
+	assert.equal(entry.entryPoint, "src/index.ts");
+});
+
+test("an unknown flag before the entry point is rejected when followed by a value", () => {
+	const parsed = parseArgs(["deploy", "--yolo", "--new-flag", "value"]);
+	assert.equal(parsed.entryPoint, undefined);
+	assert.match(parsed.errors[0], /Unknown flag --new-flag: can't tell whether "value" is its value or the entry point/);
+
+	assert.deepEqual(parseArgs(["deploy", "--yolo", "--new-flag=value", "src/index.ts"]).errors, []);
+	const after = parseArgs(["deploy", "src/index.ts", "--yolo", "--new-flag", "value"]);
+	assert.deepEqual(after.errors, []);
+	assert.deepEqual(after.remainingArgs, ["--new-flag", "value"]);
+});
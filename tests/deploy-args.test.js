@@ -0,0 +1,95 @@
+/**
+ * Checks the wrangler arguments YOLO mode builds in each mode. Runs on the
+ * compiled code, so build first (`npm test` does).
+ */
+
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync } = require("node:fs");
+const os = require("node:os");
+const path = require("node:path");
+const { test } = require("node:test");
+const { parseArgs } = require("../dist/args");
+const { buildDeployArgs, getDroppedUploadArgs, toDryRunDeployParams } = require("../dist/yolo/deploy");
+const { buildDeployParams } = require("../dist/yolo/params");
+
+/**
+ * Every flag `wrangler versions upload` accepts in wrangler 4.86.0, including
+ * hidden ones and aliases. wrangler runs yargs in strict mode, so anything
+ * else fails the command.
+ */
+const VERSIONS_UPLOAD_FLAGS = new Set([
+	"--config", "-c", "--cwd", "--env", "-e", "--env-file", "--name", "--tag", "--message", "--preview-alias",
+	"--bundle", "--no-bundle", "--outdir", "--outfile", "--compatibility-date", "--compatibility-flags",
+	"--compatibility-flag", "--latest", "--assets", "--site", "--site-include", "--site-exclude", "--var",
+	"--define", "--alias", "--jsx-factory", "--jsx-fragment", "--tsconfig", "--minify", "--no-minify",
+	"--upload-source-maps", "--no-upload-source-maps", "--node-compat", "--dry-run", "--experimental-auto-create",
+	"--x-auto-create", "--secrets-file",
+]);
+
+const projectRoot = mkdtempSync(path.join(os.tmpdir(), "wrongler-args-"));
+test.after(() => rmSync(projectRoot, { recursive: true, force: true }));
+
+/**
+ * DeployParams as the CLI builds them for `wrongler deploy <args>`
+ */
+function paramsFor(args) {
+	const parsed = parseArgs(["deploy", ...args]);
+	assert.deepEqual(parsed.errors, []);
+	return buildDeployParams(
+		{ name: "my-worker", main: "src/index.js", compatibility_date: "2026-10-01" },
+		parsed,
+		{ projectRoot, entryPath: "src/index.js", workerName: "my-worker", accountId: undefined }
+	);
+}
+
+/**
+ * The flags in an argv, without their values
+ */
+function flagsOf(args) {
+	return args.filter((arg) => arg.startsWith("-")).map((arg) => arg.split("=")[0]);
+}
+
+const deployOnlyArgs = ["--metafile", "--routes", "example.com/*", "--keep-vars", "--logpush", "--minify"];
+
+for (const mode of ["preview", "gradual"]) {
+	test(`--yolo=${mode} uploads with flags versions upload accepts`, () => {
+		const params = paramsFor([`--yolo=${mode}`, ...deployOnlyArgs]);
+		const args = buildDeployArgs(params);
+
+		assert.deepEqual(args.slice(0, 3), ["versions", "upload", "src/index.js"]);
+		for (const flag of flagsOf(args)) {
+			assert.ok(VERSIONS_UPLOAD_FLAGS.has(flag), `versions upload doesn't accept ${flag}`);
+		}
+		assert.ok(args.includes("--minify"));
+		assert.deepEqual(getDroppedUploadArgs(params), [
+			"--routes example.com/*",
+			"--metafile",
+			"--keep-vars",
+			"--logpush",
+		]);
+	});
+
+	test(`--yolo=${mode} builds locally with deploy --dry-run and a metafile`, () => {
+		const params = {
+			...paramsFor([`--yolo=${mode}`, "--", "--preview-alias", "staging", "--tag", "v1"]),
+			outDir: "/tmp/build",
+			metafile: "/tmp/bundle-meta.json",
+		};
+		const args = buildDeployArgs(toDryRunDeployParams(params));
+
+		assert.deepEqual(args.slice(0, 2), ["deploy", "src/index.js"]);
+		assert.ok(args.includes("--dry-run"));
+		assert.ok(args.includes("--metafile=/tmp/bundle-meta.json"));
+		assert.ok(!args.includes("--preview-alias"), "deploy doesn't accept --preview-alias");
+		assert.deepEqual(args.slice(-2), ["--tag", "v1"]);
+	});
+}
+
+test("--yolo deploys with the deploy-only flags", () => {
+	const args = buildDeployArgs(paramsFor(["--yolo", ...deployOnlyArgs]));
+
+	assert.deepEqual(args.slice(0, 2), ["deploy", "src/index.js"]);
+	for (const flag of ["--routes", "--metafile", "--keep-vars", "--logpush"]) {
+		assert.ok(flagsOf(args).includes(flag), `missing ${flag}`);
+	}
+});
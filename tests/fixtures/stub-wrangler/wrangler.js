@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+
+/**
+ * Stands in for wrangler in tests (point WRONGLER_WRANGLER_PATH here). Logs
+ * each invocation's arguments as a JSON line to WRONGLER_STUB_LOG and answers
+ * with what the real wrangler prints, without talking to Cloudflare.
+ */
+
+const { appendFileSync, mkdirSync, writeFileSync } = require("node:fs");
+const path = require("node:path");
+
+const args = process.argv.slice(2);
+appendFileSync(process.env.WRONGLER_STUB_LOG, `${JSON.stringify(args)}\n`);
+
+// Like yargs' strict mode, which wrangler uses
+const KNOWN_FLAGS = {
+	deploy: ["--name", "--env", "--outdir", "--metafile", "--dry-run", "--message", "--routes", "--keep-vars"],
+	"versions upload": ["--name", "--env", "--message", "--preview-alias", "--tag"],
+	"versions deploy": ["--name", "--env", "--message", "--yes"],
+};
+
+const command = args[0] === "versions" ? `versions ${args[1]}` : args[0];
+for (const arg of args.filter((arg) => arg.startsWith("--"))) {
+	if (!KNOWN_FLAGS[command]?.includes(arg.split("=")[0])) {
+		console.error(`✘ [ERROR] Unknown argument: ${arg.slice(2).split("=")[0]}`);
+		process.exit(1);
+	}
+}
+
+const valueOf = (flag) => {
+	const index = args.findIndex((arg) => arg === flag || arg.startsWith(`${flag}=`));
+	return index === -1 ? undefined : args[index].includes("=") ? args[index].split("=")[1] : args[index + 1];
+};
+
+if (command === "deploy" && args.includes("--dry-run")) {
+	const outDir = valueOf("--outdir");
+	mkdirSync(outDir, { recursive: true });
+	writeFileSync(path.join(outDir, "index.js"), `// built ${Date.now()}\n`);
+	const metafile = valueOf("--metafile");
+	if (metafile) {
+		writeFileSync(metafile, JSON.stringify({ inputs: { [args[1]]: {} } }));
+	}
+	console.log("--dry-run: exiting now.");
+} else if (command === "versions upload") {
+	const versionId = process.env.WRONGLER_STUB_VERSION_ID;
+	console.log(`Worker Version ID: ${versionId}`);
+	console.log(`Version Preview URL: https://${versionId.slice(0, 8)}-${valueOf("--name")}.dev.workers.dev`);
+} else if (command !== "versions deploy") {
+	console.error(`✘ [ERROR] The stub doesn't handle: ${args.join(" ")}`);
+	process.exit(1);
+}
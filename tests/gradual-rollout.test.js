@@ -0,0 +1,98 @@
+/**
+ * Runs a --yolo=gradual session end to end against a stub wrangler
+ * (tests/fixtures/stub-wrangler) and checks the commands it ran. Runs on the
+ * compiled code, so build first (`npm test` does).
+ */
+
+const assert = require("node:assert/strict");
+const { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } = require("node:fs");
+const os = require("node:os");
+const path = require("node:path");
+const { test } = require("node:test");
+
+// Keep the cache and deployment log out of the real home directory
+const home = mkdtempSync(path.join(os.tmpdir(), "wrongler-home-"));
+const projectRoot = mkdtempSync(path.join(os.tmpdir(), "wrongler-project-"));
+const stubLog = path.join(home, "wrangler-calls.jsonl");
+process.env.HOME = home;
+process.env.WRONGLER_WRANGLER_PATH = path.join(__dirname, "fixtures", "stub-wrangler", "wrangler.js");
+process.env.WRONGLER_STUB_LOG = stubLog;
+
+const { parseArgs } = require("../dist/args");
+const { loadConfig } = require("../dist/config");
+const { getCurrentVersion, recordVersion, toHistoryTarget } = require("../dist/yolo/history");
+const { buildDeployParams } = require("../dist/yolo/params");
+const { createYoloSession } = require("../dist/yolo/session");
+
+const PREVIOUS_VERSION = "11111111-1111-4111-8111-111111111111";
+const NEW_VERSION = "22222222-2222-4222-8222-222222222222";
+
+test.after(() => {
+	rmSync(home, { recursive: true, force: true });
+	rmSync(projectRoot, { recursive: true, force: true });
+});
+
+test("--yolo=gradual uploads a version and steps traffic over to it", async () => {
+	mkdirSync(path.join(projectRoot, "src"));
+	writeFileSync(path.join(projectRoot, "src", "index.js"), "export default { fetch: () => new Response(\"hi\") };\n");
+	writeFileSync(path.join(projectRoot, "wrangler.toml"), "name = \"my-worker\"\nmain = \"src/index.js\"\n");
+	process.env.WRONGLER_STUB_VERSION_ID = NEW_VERSION;
+
+	const params = buildDeployParams(loadConfig(projectRoot), parseArgs(["deploy", "--yolo=gradual"]), {
+		projectRoot,
+		entryPath: "src/index.js",
+		workerName: "my-worker",
+		accountId: undefined,
+	});
+	recordVersion(toHistoryTarget(params), { versionId: PREVIOUS_VERSION, deployedAt: new Date().toISOString() });
+
+	const session = createYoloSession(params, { rollout: { steps: [25, 100], intervalMs: 0 } });
+	const events = [];
+	session.events.on("event", (event) => events.push(event.type));
+	await session.ready;
+	await session.stop();
+
+	const calls = readFileSync(stubLog, "utf-8").trim().split("\n").map((line) => JSON.parse(line));
+	const commands = calls.map((args) => args.slice(0, args[0] === "versions" ? 2 : 1).join(" "));
+	assert.deepEqual(commands, ["deploy", "versions upload", "versions deploy", "versions deploy"]);
+
+	const [build, upload, firstStep, lastStep] = calls;
+	assert.ok(build.includes("--dry-run"));
+	assert.ok(build.some((arg) => arg.startsWith("--metafile=")));
+	assert.ok(!upload.some((arg) => arg.startsWith("--metafile")));
+	assert.deepEqual(firstStep.slice(2, 4), [`${NEW_VERSION}@25%`, `${PREVIOUS_VERSION}@75%`]);
+	assert.deepEqual(lastStep.slice(2, 3), [`${NEW_VERSION}@100%`]);
+
+	assert.ok(events.includes("rollout-complete"), `no rollout-complete in ${events.join(", ")}`);
+	assert.equal(getCurrentVersion(toHistoryTarget(params))?.versionId, NEW_VERSION);
+});
+
+test("a rollout that completes isn't failed by a cache that can't be written", async () => {
+	// A file where the cache directory should be makes every cache write fail
+	const brokenHome = mkdtempSync(path.join(os.tmpdir(), "wrongler-home-"));
+	writeFileSync(path.join(brokenHome, ".wrongler"), "");
+	process.env.HOME = brokenHome;
+
+	try {
+		const params = buildDeployParams(loadConfig(projectRoot), parseArgs(["deploy", "--yolo=gradual"]), {
+			projectRoot,
+			entryPath: "src/index.js",
+			workerName: "my-worker",
+			accountId: undefined,
+		});
+		const session = createYoloSession(params, { rollout: { steps: [25, 100], intervalMs: 0 } });
+		const events = [];
+		session.events.on("event", (event) => events.push(event));
+		await session.ready;
+		await session.stop();
+
+		const types = events.map((event) => event.type);
+		assert.ok(types.includes("rollout-complete"), `no rollout-complete in ${types.join(", ")}`);
+		assert.ok(!types.includes("deploy-error"), `deploy-error in ${types.join(", ")}`);
+		const warning = events.find((event) => event.type === "history-error");
+		assert.equal(warning?.versionId, NEW_VERSION);
+	} finally {
+		process.env.HOME = home;
+		rmSync(brokenHome, { recursive: true, force: true });
+	}
+});
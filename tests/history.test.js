@@ -0,0 +1,78 @@
+/**
+ * Checks that the YOLO version history is kept per project, environment and
+ * account, and that history from older caches is taken over. Runs on the
+ * compiled code, so build first (`npm test` does).
+ */
+
+const assert = require("node:assert/strict");
+const { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } = require("node:fs");
+const os = require("node:os");
+const path = require("node:path");
+const { test } = require("node:test");
+
+// Keep the cache out of the real home directory
+const home = mkdtempSync(path.join(os.tmpdir(), "wrongler-home-"));
+process.env.HOME = home;
+
+const { clearCache, getLastYoloVersion, getProjectKey, getYoloVersions } = require("../dist/cache");
+const { getCurrentVersion, recordVersion } = require("../dist/yolo/history");
+
+const cachePath = path.join(home, ".wrongler", "cache.json");
+const version = (versionId, accountId, deployedAt = "2026-10-01T00:00:00.000Z") => ({ versionId, accountId, deployedAt });
+const target = (dir, env, accountId) => ({
+	projectKey: getProjectKey(path.join("/projects", dir, "wrangler.toml"), "my-worker"),
+	name: "my-worker",
+	env,
+	accountId,
+});
+
+test.beforeEach(() => clearCache());
+test.after(() => rmSync(home, { recursive: true, force: true }));
+
+test("the same worker name has a history per project, environment and account", () => {
+	recordVersion(target("a", undefined, "acc-1"), version("v1", "acc-1"));
+	recordVersion(target("b", undefined, "acc-1"), version("v2", "acc-1"));
+	recordVersion(target("a", "staging", "acc-1"), version("v3", "acc-1"));
+	recordVersion(target("a", undefined, "acc-2"), version("v4", "acc-2"));
+
+	assert.equal(getCurrentVersion(target("a", undefined, "acc-1"))?.versionId, "v1");
+	assert.equal(getCurrentVersion(target("b", undefined, "acc-1"))?.versionId, "v2");
+	assert.equal(getCurrentVersion(target("a", "staging", "acc-1"))?.versionId, "v3");
+	assert.equal(getCurrentVersion(target("a", undefined, "acc-2"))?.versionId, "v4");
+	assert.equal(getCurrentVersion(target("a", "production", "acc-1")), undefined);
+});
+
+test("the last version of a project is found across accounts", () => {
+	recordVersion(target("a", undefined, "acc-1"), version("v1", "acc-1", "2026-10-01T00:00:00.000Z"));
+	recordVersion(target("a", undefined, "acc-2"), version("v2", "acc-2", "2026-10-02T00:00:00.000Z"));
+	recordVersion(target("b", undefined, "acc-3"), version("v3", "acc-3", "2026-10-03T00:00:00.000Z"));
+
+	const { accountId, ...project } = target("a", undefined, undefined);
+	assert.equal(getLastYoloVersion(project)?.accountId, "acc-2");
+});
+
+test("history kept per worker name is taken over by a target on the same account", () => {
+	mkdirSync(path.dirname(cachePath), { recursive: true });
+	writeFileSync(
+		cachePath,
+		JSON.stringify({
+			version: 2,
+			accounts: {},
+			yoloVersions: { "my-worker": [version("v1", "acc-1"), version("v2", "acc-2"), version("v3", "acc-1")] },
+		})
+	);
+
+	const first = target("a", undefined, "acc-1");
+	assert.deepEqual(getYoloVersions(first).map((entry) => entry.versionId), ["v1", "v3"]);
+	assert.deepEqual(getYoloVersions(target("a", undefined, "acc-3")), []);
+
+	recordVersion(first, version("v4", "acc-1"));
+	assert.deepEqual(getYoloVersions(first).map((entry) => entry.versionId), ["v1", "v3", "v4"]);
+	// Another project on that account no longer sees them
+	assert.deepEqual(getYoloVersions(target("b", undefined, "acc-1")), []);
+	assert.deepEqual(getYoloVersions(target("b", undefined, "acc-2")).map((entry) => entry.versionId), ["v2"]);
+
+	const cache = JSON.parse(readFileSync(cachePath, "utf-8"));
+	assert.equal(cache.version, 3);
+	assert.equal(cache.yoloVersions, undefined);
+});
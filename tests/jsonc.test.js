@@ -0,0 +1,28 @@
+/**
+ * Checks the JSONC parser used for wrangler.jsonc. Runs on the compiled code,
+ * so build first (`npm test` does).
+ */
+
+const assert = require("node:assert/strict");
+const { test } = require("node:test");
+const { JsoncParseError, parseJsonc } = require("../dist/utils/jsonc");
+
+test("comments and trailing commas are allowed", () => {
+	const content = '{\n\t// the worker\n\t"name": "my-worker", /* inline */\n\t"vars": { "A": "1", },\n}\n';
+	assert.deepEqual(parseJsonc(content), { name: "my-worker", vars: { A: "1" } });
+});
+
+test("a __proto__ key is an ordinary key, as with JSON.parse", () => {
+	const content = '{ "vars": { "__proto__": { "polluted": true }, "A": "1" } }';
+	const parsed = parseJsonc(content);
+
+	assert.equal(Object.getPrototypeOf(parsed.vars), Object.prototype);
+	assert.equal(parsed.vars.polluted, undefined);
+	assert.deepEqual(Object.keys(parsed.vars), ["__proto__", "A"]);
+	assert.deepEqual(parsed.vars.__proto__, { polluted: true });
+	assert.deepEqual(parsed, JSON.parse(content));
+});
+
+test("invalid input throws a JsoncParseError", () => {
+	assert.throws(() => parseJsonc('{ "name": }'), JsoncParseError);
+});
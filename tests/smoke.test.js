@@ -0,0 +1,44 @@
+/**
+ * Checks the smoke test settings validation and that a bad URL fails a check
+ * rather than throwing. Runs on the compiled code, so build first (`npm test`
+ * does).
+ */
+
+const assert = require("node:assert/strict");
+const { test } = require("node:test");
+const { runSmokeTests, toSmokeBaseUrl, toSmokeOptions } = require("../dist/yolo/smoke");
+
+test("smoke settings default to the worker URL with rollback", () => {
+	assert.deepEqual(toSmokeOptions({ checks: ["/health", { path: "/api", status: 204 }] }), {
+		checks: [
+			{ path: "/health", status: 200 },
+			{ path: "/api", status: 204, contains: undefined, maxLatencyMs: undefined },
+		],
+		baseUrl: undefined,
+		target: "worker",
+		rollback: true,
+	});
+	assert.deepEqual(toSmokeOptions(undefined).checks, []);
+});
+
+test("invalid smoke settings are rejected with the setting's name", () => {
+	assert.throws(() => toSmokeOptions({ checks: "/health" }), /"smoke.checks" must be a list/);
+	assert.throws(() => toSmokeOptions({ checks: [{ path: "/", status: "200" }] }), /Smoke check 1 must be/);
+	assert.throws(() => toSmokeOptions({ checks: [""] }), /Smoke check 1 must be/);
+	assert.throws(() => toSmokeOptions({ target: "prod" }), /"smoke.target" must be "worker" or "preview"/);
+	assert.throws(() => toSmokeOptions({ rollback: "no" }), /"smoke.rollback" must be true or false/);
+	assert.throws(() => toSmokeOptions({ baseUrl: "localhost:8787" }), /"smoke.baseUrl" must be an http or https URL/);
+	assert.throws(() => toSmokeOptions([]), /"smoke" must be an object/);
+});
+
+test("base URLs must be absolute http(s) URLs", () => {
+	assert.equal(toSmokeBaseUrl("http://127.0.0.1:8787"), "http://127.0.0.1:8787");
+	assert.throws(() => toSmokeBaseUrl("/health"), /must be an http or https URL/);
+	assert.throws(() => toSmokeBaseUrl("ftp://example.com"), /must be an http or https URL/);
+});
+
+test("a check whose URL can't be built fails instead of throwing", async () => {
+	const [result] = await runSmokeTests("not a url", [{ path: "/health", status: 200 }]);
+	assert.equal(result.passed, false);
+	assert.match(result.reason, /Invalid URL/);
+});
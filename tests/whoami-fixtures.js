@@ -0,0 +1,61 @@
+/**
+ * Checks src/whoami.ts against the captured `wrangler whoami` output in
+ * tests/fixtures/wrangler-whoami. Runs on the compiled code, so build first
+ * (`npm test` does).
+ */
+
+const assert = require("node:assert/strict");
+const { readdirSync, readFileSync } = require("node:fs");
+const path = require("node:path");
+const { parseWhoamiJson, parseWhoamiOutput } = require("../dist/whoami");
+
+const fixturesDir = path.join(__dirname, "fixtures", "wrangler-whoami");
+const expected = JSON.parse(readFileSync(path.join(fixturesDir, "expected.json"), "utf-8"));
+
+// Every capture, as "<version>/<scenario>.txt"
+const fixtures = readdirSync(fixturesDir, { withFileTypes: true })
+	.filter((entry) => entry.isDirectory())
+	.flatMap((dir) => readdirSync(path.join(fixturesDir, dir.name)).map((file) => `${dir.name}/${file}`));
+
+let failures = 0;
+const check = (name, test) => {
+	try {
+		test();
+		console.log(`✓ ${name}`);
+	} catch (error) {
+		failures++;
+		console.error(`✗ ${name}`);
+		console.error(`  ${String(error.message).replace(/\n/g, "\n  ")}`);
+	}
+};
+
+for (const fixture of fixtures) {
+	check(fixture, () => {
+		const expectation = expected[fixture];
+		assert.ok(expectation, "no entry in expected.json");
+		const output = readFileSync(path.join(fixturesDir, fixture), "utf-8");
+		const { exitCode, jsonSupported, ...result } = expectation;
+
+		if (jsonSupported === false) {
+			// runWhoami falls back to the text output when it sees this
+			assert.equal(parseWhoamiJson(output), undefined);
+			assert.match(output.replace(/\x1b\[[0-9;]*m/g, ""), /Unknown argument: json/);
+			return;
+		}
+
+		const parsed = path.basename(fixture).startsWith("json-") ? parseWhoamiJson(output) : parseWhoamiOutput(output);
+		// Drop fields the parser left undefined, as expected.json can't hold them
+		assert.deepEqual(JSON.parse(JSON.stringify(parsed ?? null)), result);
+	});
+}
+
+for (const fixture of Object.keys(expected).filter((name) => !fixtures.includes(name))) {
+	check(fixture, () => assert.fail("listed in expected.json, but there is no such file"));
+}
+
+console.log("");
+if (failures > 0) {
+	console.error(`${failures} of ${fixtures.length} whoami fixtures failed`);
+	process.exit(1);
+}
+console.log(`All ${fixtures.length} whoami fixtures passed`);